@@ -0,0 +1,139 @@
+// @ts-nocheck
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { handleRequest } from './core.ts'
+import { RowndHttpError } from './errors.ts'
+import { createRowndHandler } from './simplified.ts'
+import { createTestKeys } from './testing.ts'
+
+let keys
+
+beforeAll(async () => {
+  keys = await createTestKeys()
+})
+
+// Runs a request through the pipeline and echoes the context it produced
+async function run(options, init = {}, url = 'http://localhost/') {
+  const res = await handleRequest(new Request(url, init), { verify: keys.verify, ...options }, context =>
+    Response.json({
+      userId: context.userId,
+      tokenSource: context.tokenSource,
+      key: context.supabase.supabaseKey,
+      query: context.query
+    })
+  )
+  return { status: res.status, body: await res.json() }
+}
+
+describe('optional auth', () => {
+  it('lets guests in with an anon-key client', async () => {
+    const { status, body } = await run({ auth: 'optional' })
+
+    expect(status).toBe(200)
+    expect(body).toMatchObject({ userId: null, tokenSource: null, key: 'test-anon-key' })
+  })
+
+  it('gives signed-in users the service client', async () => {
+    const { body } = await run({ auth: 'optional' }, { headers: { 'X-Rownd-Token': await keys.sign({ sub: 'user_1' }) } })
+
+    expect(body).toMatchObject({ userId: 'user_1', tokenSource: 'header', key: 'test-service-role-key' })
+  })
+
+  it('still rejects a token that fails verification', async () => {
+    const { status, body } = await run({ auth: 'optional' }, { headers: { 'X-Rownd-Token': await keys.sign({ expiresIn: -60 }) } })
+
+    expect(status).toBe(401)
+    expect(body.code).toBe('invalid_token')
+  })
+
+  it('requires a token when guards are set', async () => {
+    const { status, body } = await run({ auth: 'optional', requireRoles: ['admin'] })
+
+    expect(status).toBe(401)
+    expect(body.code).toBe('missing_token')
+  })
+})
+
+describe('token sources', () => {
+  const sources = { bearer: true, cookie: 'rownd_token', query: 'access_token' }
+
+  it('reads the token from each configured source', async () => {
+    const token = await keys.sign({ sub: 'user_1' })
+
+    expect((await run({ token: sources }, { headers: { Authorization: `Bearer ${token}` } })).body.tokenSource).toBe('bearer')
+    expect((await run({ token: sources }, { headers: { Cookie: `theme=dark; rownd_token=${token}` } })).body.tokenSource)
+      .toBe('cookie')
+    expect((await run({ token: sources }, {}, `http://localhost/?access_token=${token}`)).body.tokenSource).toBe('query')
+  })
+
+  it('prefers the header and ignores bearer tokens Rownd didn\'t issue', async () => {
+    const token = await keys.sign({ sub: 'user_1' })
+    const anonKey = await keys.sign({ issuer: 'supabase' })
+
+    const both = await run({ token: sources }, { headers: { 'X-Rownd-Token': token, Authorization: `Bearer ${anonKey}` } })
+    expect(both.body).toMatchObject({ userId: 'user_1', tokenSource: 'header' })
+
+    const anonOnly = await run({ token: sources }, { headers: { Authorization: `Bearer ${anonKey}` } })
+    expect(anonOnly.status).toBe(401)
+    expect(anonOnly.body).toEqual({ error: 'Missing Rownd token', code: 'missing_token' })
+  })
+
+  it('only reads the sources it is given', async () => {
+    const token = await keys.sign({ sub: 'user_1' })
+    const { status } = await run({ token: { header: false, cookie: 'rownd_token' } }, { headers: { 'X-Rownd-Token': token } })
+
+    expect(status).toBe(401)
+  })
+})
+
+describe('shared pipeline', () => {
+  it('answers CORS preflights and adds CORS headers to responses', async () => {
+    const options = { verify: keys.verify, corsOrigin: 'https://app.example.com', additionalHeaders: ['x-trace'] }
+    const preflight = await handleRequest(new Request('http://localhost/', { method: 'OPTIONS' }), options, () => {
+      throw new Error('not reached')
+    })
+
+    expect(preflight.status).toBe(200)
+    expect(preflight.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+    expect(preflight.headers.get('Access-Control-Allow-Headers')).toMatch(/x-rownd-token, x-trace$/)
+
+    const denied = await handleRequest(new Request('http://localhost/'), options, () => new Response('ok'))
+    expect(denied.status).toBe(401)
+    expect(denied.headers.get('Access-Control-Allow-Origin')).toBe('https://app.example.com')
+    expect(await denied.json()).toEqual({ error: 'Missing X-Rownd-Token header', code: 'missing_token' })
+  })
+
+  it('reports handler errors as { error, code }', async () => {
+    const fail = async error => {
+      const res = await handleRequest(new Request('http://localhost/'), { auth: 'none' }, () => {
+        throw error
+      })
+      return { status: res.status, body: await res.json() }
+    }
+
+    expect(await fail(new RowndHttpError(409, 'Already exists', 'conflict')))
+      .toEqual({ status: 409, body: { error: 'Already exists', code: 'conflict' } })
+
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(await fail(new Error('boom'))).toEqual({ status: 500, body: { error: 'boom', code: 'internal_error' } })
+    log.mockRestore()
+  })
+
+  it('parses repeated query keys into arrays', async () => {
+    const { body } = await run({ auth: 'none' }, {}, 'http://localhost/?tag=a&tag=b&page=2')
+
+    expect(body.query).toEqual({ tag: ['a', 'b'], page: '2' })
+  })
+
+  it('sends createRowndHandler values as JSON with the same errors', async () => {
+    let handle
+    globalThis.Deno.serve = handler => (handle = handler)
+    createRowndHandler((req, { userId, request }) => ({ userId, same: request === req }), { verify: keys.verify })
+
+    const res = await handle(new Request('http://localhost/', { headers: { 'X-Rownd-Token': await keys.sign({ sub: 'user_1' }) } }))
+    expect(await res.json()).toEqual({ userId: 'user_1', same: true })
+
+    const missing = await handle(new Request('http://localhost/'))
+    expect(missing.status).toBe(401)
+    expect(await missing.json()).toEqual({ error: 'Missing X-Rownd-Token header', code: 'missing_token' })
+  })
+})
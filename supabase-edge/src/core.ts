@@ -0,0 +1,343 @@
+// @ts-nocheck
+/**
+ * The request pipeline shared by serve(), createRowndHandler() and the router:
+ * CORS, token extraction, verification, guards, context and error responses.
+ * Every handler style goes through handleRequest(), so they validate tokens
+ * and report errors identically.
+ */
+
+import * as jose from 'https://deno.land/x/jose@v4.14.4/index.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { RowndHttpError } from './errors.ts'
+import { RowndGuardOptions, assertGuards, hasGuards } from './guards.ts'
+
+export const ROWND_ISSUER = 'https://api.rownd.io'
+export const ROWND_JWKS_URL = 'https://api.rownd.io/hub/auth/keys'
+
+const DEFAULT_CORS_HEADERS = ['authorization', 'x-client-info', 'apikey', 'content-type', 'x-rownd-token']
+
+const DEFAULT_PUBLIC_KEY_ALGORITHM = 'RS256'
+
+// Verification keys by source; a remote set refetches on its own when it
+// sees an unknown key ID
+const verificationKeys = new Map<string, Promise<jose.KeyLike | jose.JWTVerifyGetKey>>()
+
+/**
+ * How Rownd tokens are verified. Keys come from the first of `jwks`,
+ * `publicKey`, `keyPath` and `jwksUrl` that is set, then from the
+ * ROWND_JWKS, ROWND_PUBLIC_KEY and ROWND_KEY_PATH environment variables, so
+ * tests and CI can verify tokens without network access.
+ */
+export interface RowndVerifyOptions {
+  issuer?: string // Expected `iss` claim (default: https://api.rownd.io)
+  audience?: string | string[] | false // Expected `aud` claim (default: the issuer); false to skip the check
+  jwksUrl?: string // Where to fetch signing keys (default: https://api.rownd.io/hub/auth/keys)
+  jwks?: jose.JSONWebKeySet // Inline key set, used instead of fetching one
+  publicKey?: string // PEM-encoded (SPKI) public key, used instead of a key set
+  publicKeyAlgorithm?: string // Algorithm of `publicKey` (default: 'RS256')
+  keyPath?: string // File holding a JWKS (JSON) or a PEM public key
+  clockTolerance?: number | string // Allowed clock skew for exp/nbf, in seconds or a jose duration like '30s' (default: 0)
+}
+
+// required: a valid token is needed; optional: guests are let in and a token
+// is validated if sent; none: the token is never read
+export type RowndAuthMode = 'required' | 'optional' | 'none'
+
+// Where a request's Rownd token was found
+export type RowndTokenSource = 'header' | 'bearer' | 'cookie' | 'query'
+
+/**
+ * Where to look for the Rownd token, checked in the order listed here
+ */
+export interface RowndTokenOptions {
+  header?: string | false // Header carrying the raw token (default: 'x-rownd-token'); false to skip
+  bearer?: boolean // Read `Authorization: Bearer`, ignoring tokens Rownd didn't issue such as the Supabase anon key
+  cookie?: string // Cookie carrying the token, for server-rendered apps
+  query?: string // Query parameter carrying the token, for WebSocket and EventSource clients
+}
+
+/**
+ * Options accepted by every handler style
+ */
+export interface RowndHandlerOptions extends RowndGuardOptions {
+  auth?: RowndAuthMode // 'optional' lets guests in with userId null and an anon-key client (default: 'required')
+  token?: RowndTokenOptions // Where to read the token from (default: the X-Rownd-Token header)
+  verify?: RowndVerifyOptions
+  corsOrigin?: string // Access-Control-Allow-Origin (default: '*')
+  additionalHeaders?: string[] // Extra request headers to allow in CORS preflights
+}
+
+export interface RowndContext {
+  userId: string | null // null for guests when auth is 'optional' or 'none'
+  supabase: any // SupabaseClient from edge runtime; service role for users, anon key for guests
+  token: any | null // Full token payload
+  tokenSource: RowndTokenSource | null // Where the token was found, for auditing; null for guests
+  params: Record<string, string> // Path parameters matched by the router, e.g. { id } for /todos/:id
+  query: Record<string, string | string[]> // Parsed query string; repeated keys become arrays
+}
+
+/**
+ * Verify a Rownd token's signature, issuer, audience and expiry
+ * @throws RowndHttpError with status 401 and code `invalid_token`
+ */
+export async function verifyRowndToken(
+  token: string,
+  options: RowndVerifyOptions = {}
+): Promise<{ userId: string; payload: any }> {
+  const {
+    issuer = ROWND_ISSUER,
+    audience = issuer,
+    clockTolerance = 0
+  } = options
+
+  try {
+    const { payload } = await jose.jwtVerify(token, await getVerificationKey(options), {
+      issuer,
+      audience: audience === false ? undefined : audience,
+      clockTolerance,
+    })
+
+    if (!payload.sub) {
+      throw new Error('Token missing subject claim')
+    }
+
+    return {
+      userId: payload.sub,
+      payload
+    }
+  } catch (error: any) {
+    throw new RowndHttpError(401, `Invalid token: ${error.message}`, 'invalid_token')
+  }
+}
+
+function getVerificationKey(options: RowndVerifyOptions): Promise<jose.KeyLike | jose.JWTVerifyGetKey> {
+  // @ts-ignore - Deno.env
+  const env = (name: string) => Deno.env.get(name) || undefined
+  const algorithm = options.publicKeyAlgorithm || env('ROWND_PUBLIC_KEY_ALG') || DEFAULT_PUBLIC_KEY_ALGORITHM
+
+  let source: [string, string]
+  if (options.jwks) source = ['jwks', JSON.stringify(options.jwks)]
+  else if (options.publicKey) source = ['pem', options.publicKey]
+  else if (options.keyPath) source = ['path', options.keyPath]
+  else if (options.jwksUrl) source = ['url', options.jwksUrl]
+  else if (env('ROWND_JWKS')) source = ['jwks', env('ROWND_JWKS')!]
+  else if (env('ROWND_PUBLIC_KEY')) source = ['pem', env('ROWND_PUBLIC_KEY')!]
+  else if (env('ROWND_KEY_PATH')) source = ['path', env('ROWND_KEY_PATH')!]
+  else source = ['url', ROWND_JWKS_URL]
+
+  const cacheKey = `${source[0]}:${algorithm}:${source[1]}`
+  let key = verificationKeys.get(cacheKey)
+  if (!key) {
+    key = loadVerificationKey(source[0], source[1], algorithm)
+    // Don't cache failures, e.g. a key file that doesn't exist yet
+    key.catch(() => verificationKeys.delete(cacheKey))
+    verificationKeys.set(cacheKey, key)
+  }
+  return key
+}
+
+async function loadVerificationKey(
+  type: string,
+  value: string,
+  algorithm: string
+): Promise<jose.KeyLike | jose.JWTVerifyGetKey> {
+  switch (type) {
+    case 'url':
+      return jose.createRemoteJWKSet(new URL(value))
+    case 'jwks':
+      return jose.createLocalJWKSet(JSON.parse(value))
+    case 'pem':
+      return jose.importSPKI(value, algorithm)
+    case 'path': {
+      // @ts-ignore - Deno global
+      const contents = (await Deno.readTextFile(value)).trim()
+      return contents.startsWith('-----BEGIN')
+        ? jose.importSPKI(contents, algorithm)
+        : jose.createLocalJWKSet(JSON.parse(contents))
+    }
+  }
+}
+
+export function createServiceClient() {
+  // @ts-ignore - Deno.env
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  // @ts-ignore - Deno.env
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  return createClient(supabaseUrl, supabaseServiceKey)
+}
+
+export function createAnonClient() {
+  // @ts-ignore - Deno.env
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  // @ts-ignore - Deno.env
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+  return createClient(supabaseUrl, supabaseAnonKey)
+}
+
+/**
+ * Find the Rownd token in the places allowed by `options`
+ */
+export function extractToken(
+  req: Request,
+  options: RowndTokenOptions = {},
+  issuer = ROWND_ISSUER
+): { token: string; source: RowndTokenSource } | null {
+  const header = options.header ?? 'x-rownd-token'
+  if (header) {
+    const token = req.headers.get(header)
+    if (token) return { token, source: 'header' }
+  }
+
+  if (options.bearer) {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('authorization') || '')
+    if (match && isIssuedBy(match[1], issuer)) return { token: match[1], source: 'bearer' }
+  }
+
+  if (options.cookie) {
+    const token = readCookie(req.headers.get('cookie'), options.cookie)
+    if (token) return { token, source: 'cookie' }
+  }
+
+  if (options.query) {
+    // Tokens in URLs end up in access logs; only use this where headers can't be set
+    const token = new URL(req.url).searchParams.get(options.query)
+    if (token) return { token, source: 'query' }
+  }
+
+  return null
+}
+
+// Supabase clients send their own JWT as the bearer token, so only claim
+// bearer tokens that Rownd issued
+function isIssuedBy(token: string, issuer: string): boolean {
+  try {
+    return jose.decodeJwt(token).iss === issuer
+  } catch {
+    return false
+  }
+}
+
+function readCookie(cookieHeader: string | null, name: string): string | null {
+  for (const cookie of (cookieHeader || '').split(';')) {
+    const [key, ...value] = cookie.trim().split('=')
+    if (key === name) return decodeURIComponent(value.join('='))
+  }
+  return null
+}
+
+/**
+ * Validate the request's token according to the auth mode and guards.
+ * A token that is sent must be valid, even when guests are allowed.
+ * @throws RowndHttpError with status 401 or 403
+ */
+export async function authenticateRequest(
+  req: Request,
+  options: RowndHandlerOptions = {}
+): Promise<{ userId: string | null; payload: any; source: RowndTokenSource | null }> {
+  const { auth = 'required', token: tokenOptions, verify } = options
+  if (auth === 'none') {
+    return { userId: null, payload: null, source: null }
+  }
+
+  // Guards can't pass without a token, so they make optional auth required
+  const guarded = hasGuards(options)
+
+  const found = extractToken(req, tokenOptions, verify?.issuer)
+  if (!found) {
+    if (auth === 'optional' && !guarded) {
+      return { userId: null, payload: null, source: null }
+    }
+    throw new RowndHttpError(
+      401,
+      tokenOptions ? 'Missing Rownd token' : 'Missing X-Rownd-Token header',
+      'missing_token'
+    )
+  }
+
+  const { userId, payload } = await verifyRowndToken(found.token, verify)
+  assertGuards(payload, options)
+  return { userId, payload, source: found.source }
+}
+
+/**
+ * Run a request through the shared pipeline: answer CORS preflights,
+ * authenticate, build the context, call `run`, and turn errors into the
+ * documented `{ error, code }` responses.
+ */
+export async function handleRequest(
+  req: Request,
+  options: RowndHandlerOptions,
+  run: (context: RowndContext) => Response | Promise<Response>,
+  params: Record<string, string> = {}
+): Promise<Response> {
+  const cors = createCorsHeaders(options)
+
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: cors })
+  }
+
+  try {
+    const { userId, payload, source } = await authenticateRequest(req, options)
+
+    const context: RowndContext = {
+      userId,
+      supabase: userId ? createServiceClient() : createAnonClient(),
+      token: payload,
+      tokenSource: source,
+      params,
+      query: parseQuery(new URL(req.url))
+    }
+
+    return withCors(await run(context), cors)
+  } catch (error: any) {
+    return errorResponse(error, cors)
+  }
+}
+
+export function createCorsHeaders(options: RowndHandlerOptions = {}): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': options.corsOrigin || '*',
+    'Access-Control-Allow-Headers': [...DEFAULT_CORS_HEADERS, ...(options.additionalHeaders || [])].join(', '),
+  }
+}
+
+export function parseQuery(url: URL): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {}
+  for (const key of new Set(url.searchParams.keys())) {
+    const values = url.searchParams.getAll(key)
+    query[key] = values.length === 1 ? values[0] : values
+  }
+  return query
+}
+
+export function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      status,
+      headers: { ...headers, 'Content-Type': 'application/json' }
+    }
+  )
+}
+
+// Ensure CORS headers are added to a handler's response
+export function withCors(response: Response, cors: Record<string, string>): Response {
+  if (!response.headers.has('Access-Control-Allow-Origin')) {
+    Object.entries(cors).forEach(([key, value]) => {
+      response.headers.set(key, value)
+    })
+  }
+  return response
+}
+
+// Turn an error thrown while authenticating or handling a request into the
+// documented `{ error, code }` response (see errors.ts)
+export function errorResponse(error: any, cors: Record<string, string>): Response {
+  if (error instanceof RowndHttpError) {
+    return jsonResponse({ error: error.message, code: error.code }, error.status, cors)
+  }
+
+  console.error('Error in Rownd Edge Function:', error)
+  return jsonResponse({ error: error.message, code: 'internal_error' }, 500, cors)
+}
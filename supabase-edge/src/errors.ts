@@ -0,0 +1,31 @@
+// @ts-nocheck
+/**
+ * Error contract for @rownd/supabase-edge.
+ *
+ * Every error response has a JSON body of `{ error, code }`:
+ *
+ * | Status | Code                 | When                                          |
+ * | ------ | -------------------- | --------------------------------------------- |
+ * | 400    | `bad_request`        | The path has a malformed escape (router only) |
+ * | 401    | `missing_token`      | No token was found in the configured sources  |
+ * | 401    | `invalid_token`      | The token failed verification                 |
+ * | 403    | `missing_claim`      | A `requireClaims` guard failed                |
+ * | 403    | `missing_role`       | A `requireRoles` guard failed                 |
+ * | 403    | `email_not_verified` | The `requireVerifiedEmail` guard failed       |
+ * | 404    | `not_found`          | No route matches the path                     |
+ * | 405    | `method_not_allowed` | A route matches the path but not the method   |
+ * | any    | your code            | Your handler threw a `RowndHttpError`         |
+ * | 500    | `internal_error`     | Your handler threw anything else              |
+ */
+
+export class RowndHttpError extends Error {
+  status: number
+  code: string
+
+  constructor(status: number, message: string, code = 'error') {
+    super(message)
+    this.name = 'RowndHttpError'
+    this.status = status
+    this.code = code
+  }
+}
@@ -0,0 +1,61 @@
+// @ts-nocheck
+import { describe, expect, it } from 'vitest'
+import { RowndAuthorizationError, assertGuards, getRoles } from './guards.ts'
+import { serve } from './index.ts'
+import { createTestKeys } from './testing.ts'
+
+const code = (run: () => void) => {
+  try {
+    run()
+  } catch (error) {
+    expect(error).toBeInstanceOf(RowndAuthorizationError)
+    expect(error.status).toBe(403)
+    return error.code
+  }
+  return null
+}
+
+describe('assertGuards', () => {
+  it('matches claims by full or short name', () => {
+    const payload = { 'https://auth.rownd.io/plan': 'pro', team: 'a' }
+
+    expect(code(() => assertGuards(payload, { requireClaims: { plan: 'pro', team: 'a' } }))).toBeNull()
+    expect(code(() => assertGuards(payload, { requireClaims: { plan: 'free' } }))).toBe('missing_claim')
+  })
+
+  it('requires every listed role', () => {
+    const payload = { 'https://auth.rownd.io/roles': 'editor, admin' }
+
+    expect(getRoles(payload)).toEqual(['editor', 'admin'])
+    expect(code(() => assertGuards(payload, { requireRoles: ['admin', 'editor'] }))).toBeNull()
+    expect(code(() => assertGuards(payload, { requireRoles: ['admin', 'owner'] }))).toBe('missing_role')
+    expect(code(() => assertGuards({ groups: ['owner'] }, { requireRoles: ['owner'], rolesClaim: 'groups' }))).toBeNull()
+  })
+
+  it('requires an email Rownd has verified', () => {
+    const guard = { requireVerifiedEmail: true }
+
+    expect(code(() => assertGuards({ email: 'a@example.com', email_verified: true }, guard))).toBeNull()
+    expect(code(() => assertGuards({ email: 'a@example.com', 'https://auth.rownd.io/is_verified_user': true }, guard))).toBeNull()
+    expect(code(() => assertGuards({ email: 'a@example.com' }, guard))).toBe('email_not_verified')
+    expect(code(() => assertGuards({ 'https://auth.rownd.io/is_verified_user': true }, guard))).toBe('email_not_verified')
+  })
+})
+
+describe('serve() guards', () => {
+  it('answers a failed guard with 403 and its code', async () => {
+    const keys = await createTestKeys()
+    let handle
+    globalThis.Deno.serve = handler => (handle = handler)
+    serve(() => new Response('ok'), { verify: keys.verify, requireRoles: ['admin'] })
+
+    const request = async claims => handle(new Request('http://localhost/', {
+      headers: { 'X-Rownd-Token': await keys.sign({ sub: 'user_1', claims }) }
+    }))
+
+    const refused = await request({})
+    expect(refused.status).toBe(403)
+    expect(await refused.json()).toEqual({ error: 'Missing required role: admin', code: 'missing_role' })
+    expect((await request({ 'https://auth.rownd.io/roles': ['admin'] })).status).toBe(200)
+  })
+})
@@ -0,0 +1,46 @@
+// @ts-nocheck
+import { describe, expect, it } from 'vitest'
+import { createRouter } from './router.ts'
+import { createTestKeys } from './testing.ts'
+
+describe('createRouter', () => {
+  it('routes by method and path and captures params', async () => {
+    const router = createRouter({ auth: 'none' })
+      .get('/items/:id', (req, { params }) => Response.json(params))
+      .post('/items', () => new Response(null, { status: 201 }))
+
+    expect(await (await router.handle(new Request('http://localhost/items/a%20b'))).json()).toEqual({ id: 'a b' })
+    expect((await router.handle(new Request('http://localhost/items', { method: 'POST' }))).status).toBe(201)
+
+    const wrongMethod = await router.handle(new Request('http://localhost/items', { method: 'PUT' }))
+    expect(wrongMethod.status).toBe(405)
+    expect(wrongMethod.headers.get('Allow')).toBe('POST, OPTIONS')
+    expect((await router.handle(new Request('http://localhost/nothing'))).status).toBe(404)
+  })
+
+  it('answers a malformed escape with 400', async () => {
+    const router = createRouter({ auth: 'none' }).get('/items/:id', () => new Response('ok'))
+    const res = await router.handle(new Request('http://localhost/items/%E0%A4%A'))
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toMatchObject({ code: 'bad_request' })
+  })
+
+  it('applies router guards to authenticated routes only', async () => {
+    const keys = await createTestKeys()
+    const router = createRouter({ verify: keys.verify, requireRoles: ['admin'] })
+      .get('/admin', () => new Response('secret'))
+      .get('/health', () => new Response('ok'), { auth: 'none' })
+    const headers = { 'X-Rownd-Token': await keys.sign({ sub: 'user_1' }) }
+
+    expect((await router.handle(new Request('http://localhost/admin', { headers }))).status).toBe(403)
+    expect((await router.handle(new Request('http://localhost/health'))).status).toBe(200)
+  })
+
+  it('refuses guards on a route that never reads the token', () => {
+    expect(() => createRouter().get('/public', () => new Response('ok'), { auth: 'none', requireRoles: ['admin'] }))
+      .toThrow(/auth 'none'/)
+    expect(() => createRouter({ auth: 'none' }).get('/public', () => new Response('ok'), { requireVerifiedEmail: true }))
+      .toThrow(/auth 'none'/)
+  })
+})
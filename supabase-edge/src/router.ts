@@ -0,0 +1,182 @@
+// @ts-nocheck
+/**
+ * A small router on top of Rownd token validation.
+ *
+ * Routes match on method and path, with `:name` segments captured into
+ * `context.params`. Each route picks its own auth mode, unknown paths get a
+ * 404, known paths with the wrong method get a 405, and CORS preflights are
+ * answered automatically.
+ *
+ * @example
+ * ```typescript
+ * import { createRouter } from '@rownd/supabase-edge'
+ *
+ * createRouter({ basePath: '/todos' })
+ *   .get('/', async (req, { userId, supabase }) => { ... })
+ *   .get('/:id', async (req, { params, supabase }) => { ... })
+ *   .get('/public/stats', handler, { auth: 'none' })
+ *   .serve()
+ * ```
+ */
+
+import {
+  RowndAuthMode,
+  RowndContext,
+  RowndHandlerOptions,
+  createCorsHeaders,
+  errorResponse,
+  handleRequest,
+  jsonResponse
+} from './core.ts'
+import { RowndHttpError } from './errors.ts'
+import { RowndGuardOptions, hasGuards } from './guards.ts'
+
+export type RouteAuth = RowndAuthMode
+
+export interface RouteOptions extends RowndGuardOptions {
+  auth?: RouteAuth // default: 'required'
+}
+
+export type RouteContext = RowndContext
+
+export type RouteHandler = (
+  req: Request,
+  context: RouteContext
+) => Response | Promise<Response>
+
+// Token sources, verification and CORS apply to every route; a route's own
+// options override the router's auth mode and guards. Routes with auth 'none'
+// never read the token, so the router's guards don't apply to them.
+export interface RouterOptions extends RowndHandlerOptions {
+  basePath?: string // Prefix removed before matching, usually '/<function-name>'
+}
+
+export interface Router {
+  get(path: string, handler: RouteHandler, options?: RouteOptions): Router
+  post(path: string, handler: RouteHandler, options?: RouteOptions): Router
+  put(path: string, handler: RouteHandler, options?: RouteOptions): Router
+  patch(path: string, handler: RouteHandler, options?: RouteOptions): Router
+  delete(path: string, handler: RouteHandler, options?: RouteOptions): Router
+  route(method: string, path: string, handler: RouteHandler, options?: RouteOptions): Router
+  handle(req: Request): Promise<Response>
+  serve(): void
+}
+
+interface Route {
+  method: string
+  pattern: RegExp
+  keys: string[]
+  handler: RouteHandler
+  options: RouteOptions
+}
+
+export function createRouter(routerOptions: RouterOptions = {}): Router {
+  const routes: Route[] = []
+  const basePath = (routerOptions.basePath || '').replace(/\/+$/, '')
+
+  const router: Router = {
+    get: (path, handler, options) => router.route('GET', path, handler, options),
+    post: (path, handler, options) => router.route('POST', path, handler, options),
+    put: (path, handler, options) => router.route('PUT', path, handler, options),
+    patch: (path, handler, options) => router.route('PATCH', path, handler, options),
+    delete: (path, handler, options) => router.route('DELETE', path, handler, options),
+
+    route(method, path, handler, options = {}) {
+      // A guard on a route that never reads the token could only be ignored
+      if ((options.auth ?? routerOptions.auth) === 'none' && hasGuards(options)) {
+        throw new Error(`Route ${method.toUpperCase()} ${path} has guards but auth 'none', which never checks them`)
+      }
+      routes.push({ method: method.toUpperCase(), ...compilePath(path), handler, options })
+      return router
+    },
+
+    async handle(req) {
+      const url = new URL(req.url)
+      const pathname = normalizePath(
+        basePath && url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) : url.pathname
+      )
+
+      const matches = routes
+        .map(route => ({ route, match: route.pattern.exec(pathname) }))
+        .filter(({ match }) => match)
+      const cors = createCorsHeaders(routerOptions)
+      if (matches.length === 0) {
+        return jsonResponse({ error: `Not found: ${pathname}`, code: 'not_found' }, 404, cors)
+      }
+
+      const allowed = [...new Set(matches.map(({ route }) => route.method))]
+      if (allowed.includes('GET') && !allowed.includes('HEAD')) {
+        allowed.push('HEAD')
+      }
+
+      // Handle CORS preflight
+      if (req.method === 'OPTIONS') {
+        return new Response(null, {
+          headers: { ...cors, 'Access-Control-Allow-Methods': [...allowed, 'OPTIONS'].join(', ') }
+        })
+      }
+
+      const found = matches.find(({ route }) =>
+        route.method === req.method || (req.method === 'HEAD' && route.method === 'GET')
+      )
+      if (!found) {
+        return jsonResponse(
+          { error: `Method ${req.method} not allowed`, code: 'method_not_allowed' },
+          405,
+          { ...cors, 'Allow': [...allowed, 'OPTIONS'].join(', ') }
+        )
+      }
+
+      const { route, match } = found
+      let params: Record<string, string>
+      try {
+        params = Object.fromEntries(
+          route.keys.map((key, index) => [key, decodeURIComponent(match![index + 1])])
+        )
+      } catch {
+        return errorResponse(new RowndHttpError(400, `Malformed path: ${pathname}`, 'bad_request'), cors)
+      }
+
+      return handleRequest(
+        req,
+        { ...routerOptions, ...route.options },
+        context => route.handler(req, context),
+        params
+      )
+    },
+
+    serve() {
+      // @ts-ignore - Deno global
+      Deno.serve(router.handle)
+    }
+  }
+
+  return router
+}
+
+// Turn '/todos/:id' into a pattern capturing each parameter; a trailing '*'
+// matches the rest of the path
+function compilePath(path: string): { pattern: RegExp; keys: string[] } {
+  const keys: string[] = []
+  const source = normalizePath(path)
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) {
+        keys.push(segment.slice(1))
+        return '([^/]+)'
+      }
+      if (segment === '*') {
+        keys.push('*')
+        return '(.*)'
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    })
+    .join('/')
+
+  return { pattern: new RegExp(`^${source}$`), keys }
+}
+
+function normalizePath(path: string): string {
+  const trimmed = `/${path}`.replace(/\/+/g, '/').replace(/\/$/, '')
+  return trimmed || '/'
+}
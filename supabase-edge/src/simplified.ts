@@ -1,60 +1,45 @@
 // @ts-nocheck
-// Simplified version for direct use in Edge Functions
-
-import * as jose from 'https://deno.land/x/jose@v4.14.4/index.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const ROWND_JWKS_URL = 'https://api.rownd.io/hub/auth/keys'
-const ROWND_ISSUER = 'https://api.rownd.io'
-
-let jwksCache: jose.JWTVerifyGetKey | null = null
-let cacheExpiry = 0
-
-async function getJWKS(): Promise<jose.JWTVerifyGetKey> {
-  const now = Date.now()
-  if (jwksCache && now < cacheExpiry) {
-    return jwksCache
-  }
-
-  const response = await fetch(ROWND_JWKS_URL)
-  const jwks = await response.json()
-  
-  jwksCache = jose.createLocalJWKSet(jwks)
-  cacheExpiry = now + (30 * 60 * 1000) // Cache for 30 minutes
-  
-  return jwksCache
-}
-
-export async function validateRowndToken(req: Request) {
-  const rowndToken = req.headers.get('X-Rownd-Token')
-  
-  if (!rowndToken) {
-    throw new Error('Missing X-Rownd-Token header')
+// Simplified version for direct use in Edge Functions: handlers return plain
+// values that are sent as JSON. Validation and errors are shared with serve().
+
+import {
+  RowndContext,
+  RowndHandlerOptions,
+  RowndTokenOptions,
+  RowndVerifyOptions,
+  extractToken,
+  handleRequest,
+  jsonResponse,
+  verifyRowndToken
+} from './core.ts'
+import { RowndHttpError } from './errors.ts'
+
+/**
+ * Validate the Rownd token on a request and return its payload, with the
+ * subject also available as `user_id`
+ * @throws RowndHttpError with status 401
+ */
+export async function validateRowndToken(
+  req: Request,
+  options: { token?: RowndTokenOptions; verify?: RowndVerifyOptions } = {}
+) {
+  const found = extractToken(req, options.token, options.verify?.issuer)
+  if (!found) {
+    throw new RowndHttpError(
+      401,
+      options.token ? 'Missing Rownd token' : 'Missing X-Rownd-Token header',
+      'missing_token'
+    )
   }
 
-  try {
-    const jwks = await getJWKS()
-    const { payload } = await jose.jwtVerify(rowndToken, jwks, {
-      issuer: ROWND_ISSUER,
-    })
-    
-    if (!payload.sub) {
-      throw new Error('Invalid token: missing sub (user_id)')
-    }
-    
-    return {
-      ...payload,
-      user_id: payload.sub as string
-    }
-  } catch (error) {
-    throw new Error(`Token validation failed: ${error.message}`)
+  const { userId, payload } = await verifyRowndToken(found.token, options.verify)
+  return {
+    ...payload,
+    user_id: userId
   }
 }
 
-export interface RowndHandlerContext {
-  userId: string
-  token: any
-  supabase: any
+export interface RowndHandlerContext extends RowndContext {
   request: Request
 }
 
@@ -63,72 +48,22 @@ export type RowndHandler = (
   context: RowndHandlerContext
 ) => Promise<any> | any
 
+export type RowndValueHandler = RowndHandler
+
 export function createRowndHandler(
   handler: RowndHandler,
-  options: {
-    corsOrigin?: string
-    additionalHeaders?: string[]
-  } = {}
+  options: RowndHandlerOptions = {}
 ) {
-  const corsHeaders = {
-    'Access-Control-Allow-Origin': options.corsOrigin || '*',
-    'Access-Control-Allow-Headers': [
-      'authorization',
-      'x-client-info', 
-      'apikey',
-      'content-type',
-      'x-rownd-token',
-      ...(options.additionalHeaders || [])
-    ].join(', ')
-  }
-
-  return Deno.serve(async (req: Request) => {
-    // Handle CORS preflight
-    if (req.method === 'OPTIONS') {
-      return new Response('ok', { headers: corsHeaders })
-    }
-
-    try {
-      // Validate Rownd token
-      const tokenPayload = await validateRowndToken(req)
-      
-      // Initialize Supabase client
-      const supabase = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-      )
-
-      // Create context
-      const context: RowndHandlerContext = {
-        userId: tokenPayload.user_id,
-        token: tokenPayload,
-        supabase,
-        request: req
-      }
-
-      // Call the handler
-      const result = await handler(req, context)
+  return Deno.serve((req: Request) =>
+    handleRequest(req, options, async context => {
+      const result = await handler(req, { ...context, request: req })
 
       // Handle response
       if (result instanceof Response) {
         return result
       }
 
-      return new Response(
-        JSON.stringify(result),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200 
-        }
-      )
-    } catch (error) {
-      return new Response(
-        JSON.stringify({ error: error.message }),
-        { 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 400 
-        }
-      )
-    }
-  })
-} 
\ No newline at end of file
+      return jsonResponse(result)
+    })
+  )
+}
@@ -0,0 +1,81 @@
+// @ts-nocheck
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { verifyRowndToken } from './core.ts'
+import { createTestKeys } from './testing.ts'
+
+let keys
+
+beforeAll(async () => {
+  keys = await createTestKeys({ algorithm: 'ES256', kid: 'ci-key' })
+})
+
+afterEach(() => {
+  delete process.env.ROWND_JWKS
+  delete process.env.ROWND_PUBLIC_KEY
+  delete process.env.ROWND_PUBLIC_KEY_ALG
+})
+
+describe('createTestKeys', () => {
+  it('signs Rownd-shaped tokens its verify options trust', async () => {
+    const token = await keys.sign({ sub: 'user_1', claims: { 'https://auth.rownd.io/plan': 'pro' } })
+    const { userId, payload } = await verifyRowndToken(token, keys.verify)
+
+    expect(userId).toBe('user_1')
+    expect(payload).toMatchObject({
+      iss: 'https://api.rownd.io',
+      aud: 'https://api.rownd.io',
+      'https://auth.rownd.io/app_user_id': 'user_1',
+      'https://auth.rownd.io/plan': 'pro'
+    })
+  })
+
+  it('signs tokens verification rejects', async () => {
+    const reject = async (options, verify = keys.verify) =>
+      expect(verifyRowndToken(await keys.sign(options), verify)).rejects.toMatchObject({ status: 401, code: 'invalid_token' })
+
+    await reject({ expiresIn: -60 })
+    await reject({ issuer: 'https://example.com' })
+    await reject({ audience: 'someone-else' })
+    await reject({}, (await createTestKeys()).verify)
+  })
+
+  it('allows clock skew up to clockTolerance', async () => {
+    const token = await keys.sign({ expiresIn: -5 })
+
+    await expect(verifyRowndToken(token, { ...keys.verify, clockTolerance: 30 })).resolves.toMatchObject({ userId: 'user_test' })
+  })
+})
+
+describe('offline verification keys', () => {
+  it('verifies with a PEM public key or a key file', async () => {
+    const token = await keys.sign()
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rownd-keys-'))
+    const jwksPath = path.join(dir, 'jwks.json')
+    const pemPath = path.join(dir, 'key.pem')
+    await fs.writeFile(jwksPath, JSON.stringify(keys.jwks))
+    await fs.writeFile(pemPath, keys.publicKeyPem)
+
+    try {
+      await expect(verifyRowndToken(token, { publicKey: keys.publicKeyPem, publicKeyAlgorithm: 'ES256' })).resolves.toBeTruthy()
+      await expect(verifyRowndToken(token, { keyPath: jwksPath })).resolves.toBeTruthy()
+      await expect(verifyRowndToken(token, { keyPath: pemPath, publicKeyAlgorithm: 'ES256' })).resolves.toBeTruthy()
+    } finally {
+      await fs.rm(dir, { recursive: true })
+    }
+  })
+
+  it('reads keys from the environment', async () => {
+    const token = await keys.sign()
+
+    process.env.ROWND_JWKS = JSON.stringify(keys.jwks)
+    await expect(verifyRowndToken(token)).resolves.toBeTruthy()
+
+    delete process.env.ROWND_JWKS
+    process.env.ROWND_PUBLIC_KEY = keys.publicKeyPem
+    process.env.ROWND_PUBLIC_KEY_ALG = 'ES256'
+    await expect(verifyRowndToken(token)).resolves.toBeTruthy()
+  })
+})
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config'
+
+// The sources import their dependencies by Deno URL; tests run in Node, so
+// resolve those to the same packages installed from npm
+export default defineConfig({
+  resolve: {
+    alias: {
+      'https://deno.land/x/jose@v4.14.4/index.ts': 'jose',
+      'https://esm.sh/@supabase/supabase-js@2': '@supabase/supabase-js'
+    }
+  },
+  test: {
+    setupFiles: ['./vitest.setup.ts'],
+    // supabase-js needs a global WebSocket, which Deno has and Node 20 hides behind a flag
+    poolOptions: { forks: { execArgv: ['--experimental-websocket'] } }
+  }
+})
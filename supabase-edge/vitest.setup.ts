@@ -0,0 +1,17 @@
+import fs from 'fs/promises'
+
+// Supabase settings the functions read; nothing is called at these
+const env: Record<string, string> = {
+  SUPABASE_URL: 'http://localhost:54321',
+  SUPABASE_ANON_KEY: 'test-anon-key',
+  SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key'
+}
+
+// The parts of the Deno runtime the sources use
+;(globalThis as any).Deno = {
+  env: { get: (name: string) => process.env[name] ?? env[name] },
+  readTextFile: (path: string) => fs.readFile(path, 'utf-8'),
+  serve: () => {
+    throw new Error('Call handle() in tests instead of serving')
+  }
+}
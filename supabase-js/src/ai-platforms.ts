@@ -186,13 +186,12 @@ CREATE TABLE todos (
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 
--- Enable RLS
-ALTER TABLE todos ENABLE ROW LEVEL SECURITY;
+CREATE INDEX todos_user_id_idx ON todos (user_id);
 
--- Create policy for user isolation
-CREATE POLICY "Users can only see their own todos"
-  ON todos FOR ALL
-  USING (user_id = current_setting('request.jwt.claims', true)::json->>'sub');
+-- Enable RLS with no policies: the proxy runs as the service role and scopes
+-- rows to the Rownd user itself, so clients can't reach todos directly.
+-- For exchanged tokens, generate policies with \`npx rownd-supabase migration --mode jwt\`
+ALTER TABLE todos ENABLE ROW LEVEL SECURITY;
 
 -- Create updated_at trigger
 CREATE OR REPLACE FUNCTION update_updated_at_column()
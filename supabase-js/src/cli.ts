@@ -1,11 +1,22 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { createClient } from '@supabase/supabase-js';
 import fs from 'fs/promises';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { PROXY_FUNCTION_CODE } from './proxy.js';
+import {
+  DEFAULT_MANAGEMENT_API_URL,
+  PROXY_FUNCTION_SLUG,
+  checkProxyHealth,
+  deployProxy,
+  diffProxyCode,
+  getDeployedProxyCode,
+  getDeployedProxyInfo
+} from './deploy.js';
+import { startDevServer } from './dev.js';
+import { DoctorCheck, runDoctor } from './doctor.js';
+import { TableSchema, checkTables, generateMigration, introspectSchema } from './migrations.js';
+import { getProxyBuildInfo, getProxyFunctionCode } from './proxy.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,12 +28,33 @@ program
   .description('CLI tool for setting up Rownd + Supabase integration')
   .version('1.0.0');
 
+// Collect repeated --secret NAME=VALUE options
+const collectSecret = (value: string, secrets: Record<string, string>) => {
+  const separator = value.indexOf('=');
+  if (separator <= 0) {
+    throw new Error(`Expected NAME=VALUE, got: ${value}`);
+  }
+  return { ...secrets, [value.slice(0, separator)]: value.slice(separator + 1) };
+};
+
+// Collect repeated --bucket options
+const collectBucket = (value: string, buckets: string[]) => [...buckets, value];
+
+const STATUS_ICONS: Record<DoctorCheck['status'], string> = { pass: '✅', warn: '⚠️ ', fail: '❌', skip: '⏭️ ' };
+
 program
   .command('setup')
   .description('Deploy the universal proxy function to your Supabase project')
   .requiredOption('--url <url>', 'Your Supabase project URL')
   .requiredOption('--service-key <key>', 'Your Supabase service role key')
   .option('--project-ref <ref>', 'Your Supabase project reference (extracted from URL if not provided)')
+  .option('--policy <file>', 'JSON file with the per-table access policy to compile into the proxy')
+  .option('--access-token <token>', 'Supabase personal access token for the Management API (default: $SUPABASE_ACCESS_TOKEN)')
+  .option('--api-url <url>', 'Management API URL', process.env.SUPABASE_API_URL || DEFAULT_MANAGEMENT_API_URL)
+  .option('--jwt-secret <secret>', 'Your project\'s JWT secret, stored as ROWND_SUPABASE_JWT_SECRET for token exchange')
+  .option('--secret <name=value>', 'Extra function secret, e.g. ROWND_UPLOAD_BUCKET=uploads (repeatable)', collectSecret, {})
+  .option('--rownd-token <token>', 'A Rownd access token, to verify token validation after deploying')
+  .option('--dry-run', 'Show what would be deployed without changing anything')
   .action(async (options) => {
     try {
       console.log('🚀 Setting up Rownd + Supabase integration...\n');
@@ -34,46 +66,64 @@ program
         process.exit(1);
       }
 
-      // Create Supabase client
-      const supabase = createClient(options.url, options.serviceKey);
-
-      // Deploy using Supabase CLI (if available) or Management API
-      console.log('📦 Creating Edge Function: _rownd_universal_proxy');
-      
-      // Check if function already exists
-      try {
-        const { data, error } = await supabase.functions.invoke('_rownd_universal_proxy', {
-          body: { resource: 'health' }
-        });
-        
-        if (!error && data?.status === 'ok') {
-          console.log('✅ Proxy function already deployed and working!');
-          return;
-        }
-      } catch (e) {
-        // Function doesn't exist, proceed with deployment
+      // Compile the access policy (if any) into the function code
+      const policy = options.policy
+        ? JSON.parse(await fs.readFile(options.policy, 'utf-8'))
+        : undefined;
+      const secrets: Record<string, string> = { ...options.secret };
+      if (options.jwtSecret) {
+        secrets.ROWND_SUPABASE_JWT_SECRET = options.jwtSecret;
       }
 
-      // Create the function directory
-      const functionsDir = path.join(process.cwd(), 'supabase', 'functions', '_rownd_universal_proxy');
-      await fs.mkdir(functionsDir, { recursive: true });
-
-      // Write the function code using the exported constant
-      await fs.writeFile(path.join(functionsDir, 'index.ts'), PROXY_FUNCTION_CODE);
+      const accessToken = options.accessToken || process.env.SUPABASE_ACCESS_TOKEN;
+      if (!accessToken && !options.dryRun) {
+        // Without Management API access, leave deployment to the Supabase CLI
+        const functionsDir = path.join(process.cwd(), 'supabase', 'functions', PROXY_FUNCTION_SLUG);
+        await fs.mkdir(functionsDir, { recursive: true });
+        await fs.writeFile(path.join(functionsDir, 'index.ts'), getProxyFunctionCode(policy));
 
-      console.log(`
+        console.log(`
 ✅ Function code created at: ${functionsDir}
 
 To deploy the function, run:
 
-  supabase functions deploy _rownd_universal_proxy
+  supabase functions deploy ${PROXY_FUNCTION_SLUG} --no-verify-jwt
 
 Or if you haven't linked your project yet:
 
   supabase link --project-ref ${projectRef}
-  supabase functions deploy _rownd_universal_proxy
+  supabase functions deploy ${PROXY_FUNCTION_SLUG} --no-verify-jwt
+
+Or pass --access-token (or set SUPABASE_ACCESS_TOKEN) to deploy automatically.
+        `);
+        return;
+      }
+
+      await deployProxy({
+        projectRef,
+        accessToken: accessToken || '',
+        apiUrl: options.apiUrl,
+        policy,
+        secrets,
+        dryRun: options.dryRun
+      });
+
+      if (options.dryRun) {
+        console.log('\n✅ Dry run complete; nothing was changed');
+        return;
+      }
+
+      console.log('🩺 Checking the deployed proxy...');
+      const health = await checkProxyHealth(options.url, options.serviceKey, { rowndToken: options.rowndToken });
+      if (!health.ok) {
+        console.error(`❌ Proxy health check failed (${health.status || 'no response'}): ${health.message}`);
+        process.exit(1);
+      }
 
-After deployment, your Rownd + Supabase integration will be ready to use!
+      console.log(`
+✅ ${health.message}${health.authenticated ? '' : ' (pass --rownd-token to also verify token validation)'}
+
+Your Rownd + Supabase integration is ready to use!
       `);
 
     } catch (error) {
@@ -82,4 +132,315 @@ After deployment, your Rownd + Supabase integration will be ready to use!
     }
   });
 
+program
+  .command('dev')
+  .description('Run the universal proxy locally against a local Supabase stack (needs Node.js 22.13 or later, or the typescript package)')
+  .option('--supabase-url <url>', 'Local Supabase API URL', process.env.SUPABASE_URL || 'http://127.0.0.1:54321')
+  .option('--service-key <key>', 'Local service role key (default: $SUPABASE_SERVICE_ROLE_KEY)')
+  .option('--anon-key <key>', 'Local anon key (default: $SUPABASE_ANON_KEY)')
+  .option('--jwt-secret <secret>', 'Local JWT secret, for token exchange (default: $SUPABASE_JWT_SECRET)')
+  .option('--policy <file>', 'JSON file with the access policy to apply')
+  .option('--port <port>', 'Port to listen on', '54329')
+  .option('--host <host>', 'Interface to listen on; anything but loopback lets others mint tokens', '127.0.0.1')
+  .option('--user <id>', 'Print a token for this user at startup', 'dev_user')
+  .action(async (options) => {
+    try {
+      const serviceRoleKey = options.serviceKey || process.env.SUPABASE_SERVICE_ROLE_KEY;
+      const anonKey = options.anonKey || process.env.SUPABASE_ANON_KEY;
+      if (!serviceRoleKey || !anonKey) {
+        console.error('❌ Provide --service-key and --anon-key (shown by `supabase status`)');
+        process.exit(1);
+      }
+
+      const policy = options.policy
+        ? JSON.parse(await fs.readFile(options.policy, 'utf-8'))
+        : undefined;
+      const server = await startDevServer({
+        supabaseUrl: options.supabaseUrl,
+        serviceRoleKey,
+        anonKey,
+        jwtSecret: options.jwtSecret || process.env.SUPABASE_JWT_SECRET,
+        policy,
+        port: Number(options.port),
+        host: options.host,
+      });
+
+      console.log(`
+🚀 Rownd dev proxy running at ${server.url}, forwarding to ${options.supabaseUrl}
+
+Point your app at it and sign tokens with the dev key:
+
+  createClient('${server.url}', anonKey, {
+    getAccessToken: () =>
+      fetch('${server.url}/__rownd/token?sub=${options.user}').then(res => res.json()).then(({ token }) => token),
+  })
+
+Token for ${options.user} (valid for 1 hour):
+
+  ${await server.signToken(options.user)}
+`);
+
+      const stop = () => server.close().then(() => process.exit(0));
+      process.on('SIGINT', stop);
+      process.on('SIGTERM', stop);
+    } catch (error) {
+      console.error('❌ Dev server failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('upgrade')
+  .description('Deploy the proxy function if it is missing or differs from the one in this package')
+  .requiredOption('--url <url>', 'Your Supabase project URL')
+  .requiredOption('--service-key <key>', 'Your Supabase service role key')
+  .option('--project-ref <ref>', 'Your Supabase project reference (extracted from URL if not provided)')
+  .option('--policy <file>', 'JSON file with the access policy the proxy was set up with')
+  .option('--access-token <token>', 'Supabase personal access token for the Management API (default: $SUPABASE_ACCESS_TOKEN)')
+  .option('--api-url <url>', 'Management API URL', process.env.SUPABASE_API_URL || DEFAULT_MANAGEMENT_API_URL)
+  .option('--rownd-token <token>', 'A Rownd access token, to verify token validation after deploying')
+  .option('--check', 'Only report whether the deployed proxy is up to date')
+  .option('--dry-run', 'Show what would be deployed without changing anything')
+  .action(async (options) => {
+    try {
+      const policy = options.policy
+        ? JSON.parse(await fs.readFile(options.policy, 'utf-8'))
+        : undefined;
+      const expected = getProxyBuildInfo(policy);
+      const deployed = await getDeployedProxyInfo(options.url, options.serviceKey);
+      const projectRef = options.projectRef || options.url.match(/https:\/\/([^.]+)\.supabase\.co/)?.[1];
+      const accessToken = options.accessToken || process.env.SUPABASE_ACCESS_TOKEN;
+
+      if (deployed.status === 'missing') {
+        console.log(`The ${PROXY_FUNCTION_SLUG} function is not deployed`);
+        if (options.check) {
+          process.exit(1);
+        }
+      } else {
+        const versioned = deployed.status === 'versioned' ? deployed : null;
+        const rows: [string, string, string][] = [
+          ['Protocol', versioned ? String(versioned.protocol) : 'unversioned', String(expected.protocol)],
+          ['Code', versioned?.build || 'unknown', expected.build],
+          ['Access policy', versioned?.policyHash || 'unknown', expected.policyHash]
+        ];
+        console.log('                 Deployed           Package');
+        for (const [label, current, next] of rows) {
+          console.log(`${current === next ? '  ' : '≠ '}${label.padEnd(15)}${current.padEnd(19)}${next}`);
+        }
+        console.log();
+
+        // The headers only fingerprint what was deployed, so compare the
+        // source too to catch a function edited by hand since
+        let sourceDiff: string[] = [];
+        if (projectRef && accessToken) {
+          const deployedCode = await getDeployedProxyCode({ projectRef, accessToken, apiUrl: options.apiUrl });
+          sourceDiff = deployedCode === null ? [] : diffProxyCode(deployedCode, getProxyFunctionCode(policy));
+        } else {
+          console.log('ℹ️  Pass --access-token (or set SUPABASE_ACCESS_TOKEN) to also compare the deployed source\n');
+        }
+        if (sourceDiff.length) {
+          console.log('Deployed source (-) against this package (+):');
+          for (const line of sourceDiff.slice(0, 200)) console.log(`  ${line}`);
+          if (sourceDiff.length > 200) console.log(`  ... ${sourceDiff.length - 200} more lines`);
+          console.log();
+        }
+
+        const codeChanged = versioned?.protocol !== expected.protocol || versioned?.build !== expected.build;
+        const policyChanged = versioned?.policyHash !== expected.policyHash;
+        if (!codeChanged && !policyChanged && !sourceDiff.length) {
+          console.log('✅ The deployed proxy is up to date');
+          return;
+        }
+        if (!codeChanged && !policyChanged) {
+          console.log('⚠️  The deployed proxy was edited by hand after it was deployed');
+        }
+        if (options.check) {
+          console.log('❌ The deployed proxy differs from this package');
+          process.exit(1);
+        }
+
+        // Redeploying without the original policy would silently replace it
+        if (versioned && policyChanged && !options.policy) {
+          console.error('❌ The deployed access policy differs from the default; pass --policy with the file it was set up with');
+          process.exit(1);
+        }
+      }
+
+      if (!projectRef) {
+        console.error('❌ Could not extract project reference from URL. Please provide --project-ref');
+        process.exit(1);
+      }
+      if (!accessToken && !options.dryRun) {
+        console.error('❌ Pass --access-token (or set SUPABASE_ACCESS_TOKEN) to deploy, or run `setup` without one to write the function for the Supabase CLI');
+        process.exit(1);
+      }
+
+      await deployProxy({
+        projectRef,
+        accessToken: accessToken || '',
+        apiUrl: options.apiUrl,
+        policy,
+        dryRun: options.dryRun
+      });
+      if (options.dryRun) {
+        console.log('\n✅ Dry run complete; nothing was changed');
+        return;
+      }
+
+      // The previous deployment keeps answering until the new one starts
+      console.log('🩺 Waiting for the new deployment...');
+      let serving = false;
+      for (let attempt = 0; attempt < 10 && !serving; attempt++) {
+        if (attempt > 0) await new Promise(resolve => setTimeout(resolve, 3000));
+        const current = await getDeployedProxyInfo(options.url, options.serviceKey).catch(() => null);
+        serving = current?.status === 'versioned' && current.build === expected.build &&
+          current.policyHash === expected.policyHash;
+      }
+      if (!serving) {
+        console.error('❌ The new deployment is not serving yet; run `upgrade --check` again in a minute');
+        process.exit(1);
+      }
+
+      const health = await checkProxyHealth(options.url, options.serviceKey, { rowndToken: options.rowndToken });
+      if (!health.ok) {
+        console.error(`❌ Proxy health check failed (${health.status || 'no response'}): ${health.message}`);
+        process.exit(1);
+      }
+      console.log(`✅ Upgraded to protocol ${expected.protocol}, build ${expected.build}`);
+    } catch (error) {
+      console.error('❌ Upgrade failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('doctor')
+  .description('Check the Rownd + Supabase integration and suggest fixes')
+  .requiredOption('--url <url>', 'Your Supabase project URL')
+  .option('--anon-key <key>', 'Your Supabase anon key, used to call the proxy (default: $SUPABASE_ANON_KEY)')
+  .option('--service-key <key>', 'Your Supabase service role key, to inspect tables and buckets (default: $SUPABASE_SERVICE_ROLE_KEY)')
+  .option('--project-ref <ref>', 'Your Supabase project reference (extracted from URL if not provided)')
+  .option('--access-token <token>', 'Supabase personal access token, to read the deployed version (default: $SUPABASE_ACCESS_TOKEN)')
+  .option('--api-url <url>', 'Management API URL', process.env.SUPABASE_API_URL || DEFAULT_MANAGEMENT_API_URL)
+  .option('--policy <file>', 'JSON file with the access policy compiled into the proxy')
+  .option('--bucket <name>', 'Storage bucket the app uses (repeatable)', collectBucket, [])
+  .option('--origin <url>', 'Your app\'s origin, to check CORS, e.g. https://app.example.com')
+  .option('--rownd-token <token>', 'A sample Rownd access token to validate')
+  .action(async (options) => {
+    try {
+      console.log('🩺 Checking your Rownd + Supabase integration...\n');
+
+      const policy = options.policy
+        ? JSON.parse(await fs.readFile(options.policy, 'utf-8'))
+        : undefined;
+      const checks = await runDoctor({
+        supabaseUrl: options.url,
+        anonKey: options.anonKey || process.env.SUPABASE_ANON_KEY,
+        serviceKey: options.serviceKey || process.env.SUPABASE_SERVICE_ROLE_KEY,
+        projectRef: options.projectRef,
+        accessToken: options.accessToken || process.env.SUPABASE_ACCESS_TOKEN,
+        apiUrl: options.apiUrl,
+        policy,
+        buckets: options.bucket,
+        origin: options.origin,
+        rowndToken: options.rowndToken
+      });
+
+      for (const check of checks) {
+        console.log(`${STATUS_ICONS[check.status]} ${check.name}: ${check.message}`);
+        if (check.hint && check.status !== 'pass') {
+          console.log(`   → ${check.hint}`);
+        }
+      }
+
+      const failed = checks.filter(check => check.status === 'fail').length;
+      const warned = checks.filter(check => check.status === 'warn').length;
+      console.log(`\n${failed} failed, ${warned} warning(s), ${checks.filter(check => check.status === 'pass').length} passed`);
+      if (failed > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Doctor failed:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('migration')
+  .description('Generate a migration adding ownership columns, indexes and RLS policies')
+  .option('--url <url>', 'Supabase API URL to introspect', process.env.SUPABASE_URL || 'http://127.0.0.1:54321')
+  .option('--service-key <key>', 'Service role key, to introspect the schema (default: $SUPABASE_SERVICE_ROLE_KEY)')
+  .option('--tables <names>', 'Comma-separated tables to cover (default: every table in the schema)')
+  .option('--policy <file>', 'JSON file with the access policy, for owner columns and shared tables')
+  .option('--mode <mode>', 'How clients reach the tables: proxy (service-role proxy) or jwt (exchanged tokens)', 'proxy')
+  .option('--schema <schema>', 'Schema holding the tables', 'public')
+  .option('--realtime <names>', 'Comma-separated tables clients subscribe to with Realtime, which need a select policy')
+  .option('--out <file>', 'Where to write the migration (default: supabase/migrations/<timestamp>_rownd_ownership.sql)')
+  .option('--check', 'Report unprotected tables instead of writing a migration')
+  .action(async (options) => {
+    try {
+      if (options.mode !== 'proxy' && options.mode !== 'jwt') {
+        console.error(`❌ --mode must be proxy or jwt, got: ${options.mode}`);
+        process.exit(1);
+      }
+
+      const policy = options.policy
+        ? JSON.parse(await fs.readFile(options.policy, 'utf-8'))
+        : undefined;
+      const names: string[] | undefined = options.tables
+        ?.split(',')
+        .map((name: string) => name.trim())
+        .filter(Boolean);
+      const serviceKey = options.serviceKey || process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+      // A table list alone is enough to generate a migration, but not to check one
+      let tables: TableSchema[];
+      if (serviceKey) {
+        tables = await introspectSchema(options.url, serviceKey, options.schema);
+        if (names) {
+          const missing = names.filter(name => !tables.some(table => table.name === name));
+          if (missing.length > 0) {
+            console.error(`❌ Tables not found in ${options.schema}: ${missing.join(', ')}`);
+            process.exit(1);
+          }
+          tables = tables.filter(table => names.includes(table.name));
+        }
+      } else if (names && !options.check) {
+        tables = names.map(name => ({ name }));
+      } else {
+        console.error('❌ Provide --service-key to introspect the schema, or --tables to list the tables');
+        process.exit(1);
+      }
+
+      const realtime: string[] | undefined = options.realtime
+        ?.split(',')
+        .map((name: string) => name.trim())
+        .filter(Boolean);
+      const migrationOptions = { mode: options.mode, policy, schema: options.schema, realtime };
+
+      if (options.check) {
+        const issues = checkTables(tables, migrationOptions);
+        for (const issue of issues) {
+          console.log(`${issue.severity === 'error' ? '❌' : '⚠️ '} ${issue.table}: ${issue.message}`);
+        }
+        const errors = issues.filter(issue => issue.severity === 'error').length;
+        console.log(`\n${tables.length} table(s) checked, ${errors} unprotected`);
+        if (errors > 0) {
+          console.log('   → Run `npx rownd-supabase migration` to generate a fix');
+          process.exit(1);
+        }
+        return;
+      }
+
+      const timestamp = new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+      const out = options.out || path.join('supabase', 'migrations', `${timestamp}_rownd_ownership.sql`);
+      await fs.mkdir(path.dirname(out), { recursive: true });
+      await fs.writeFile(out, generateMigration(tables, migrationOptions));
+      console.log(`✅ Migration for ${tables.length} table(s) written to ${out}`);
+    } catch (error) {
+      console.error('❌ Migration failed:', error);
+      process.exit(1);
+    }
+  });
+
 program.parse(); 
\ No newline at end of file
@@ -1,10 +1,11 @@
 import { SupabaseClient, createClient } from '@supabase/supabase-js';
+import { createTokenExchange } from './token-exchange';
 
 export interface RowndSupabaseOptions {
   supabaseUrl: string;
   supabaseAnonKey: string;
   getAccessToken: (options?: { waitForToken?: boolean }) => Promise<string | null | undefined>;
-  useRowndAuth?: boolean; // Option to use Rownd auth for all operations
+  useRowndAuth?: boolean; // Exchange Rownd tokens for Supabase JWTs on REST, storage and realtime calls
 }
 
 /**
@@ -13,9 +14,12 @@ export interface RowndSupabaseOptions {
  */
 export function createRowndSupabaseClient(options: RowndSupabaseOptions): SupabaseClient {
   const { supabaseUrl, supabaseAnonKey, getAccessToken, useRowndAuth = false } = options;
+
+  // Trades Rownd tokens for short-lived Supabase JWTs minted by the proxy
+  const tokenExchange = createTokenExchange({ supabaseUrl, supabaseAnonKey, getAccessToken });
   
   // Create the base Supabase client with custom auth
-  const supabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+  const supabaseClient: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
     auth: {
       autoRefreshToken: false,
       persistSession: false,
@@ -32,25 +36,27 @@ export function createRowndSupabaseClient(options: RowndSupabaseOptions): Supaba
       // Custom fetch that injects Rownd token
       fetch: async (url: RequestInfo | URL, init?: RequestInit) => {
         if (useRowndAuth) {
-          const token = await getAccessToken({ waitForToken: true });
-          
-          if (token) {
-            const headers = new Headers(init?.headers || {});
-            
-            // For Edge Functions, use X-Rownd-Token
-            if (url.toString().includes('/functions/v1/')) {
-              headers.set('X-Rownd-Token', token);
-            } else {
-              // For other Supabase services, we'd need custom RLS or Edge Functions
-              // This is where it gets tricky - Supabase's PostgREST expects Supabase JWTs
+          const headers = new Headers(init?.headers || {});
+
+          if (url.toString().includes('/functions/v1/')) {
+            // Edge Functions validate the Rownd token themselves
+            const token = await getAccessToken({ waitForToken: true });
+            if (token) {
               headers.set('X-Rownd-Token', token);
             }
-            
-            return fetch(url, {
-              ...init,
-              headers
-            });
+          } else {
+            // PostgREST and Storage expect a Supabase JWT, so swap in the
+            // exchanged token and let native RLS policies do the rest
+            const supabaseToken = await tokenExchange.getSupabaseToken();
+            if (supabaseToken) {
+              headers.set('Authorization', `Bearer ${supabaseToken}`);
+            }
           }
+
+          return fetch(url, {
+            ...init,
+            headers
+          });
         }
         
         return fetch(url, init);
@@ -58,6 +64,13 @@ export function createRowndSupabaseClient(options: RowndSupabaseOptions): Supaba
     }
   });
 
+  if (useRowndAuth) {
+    // The socket calls accessToken on connect and on every heartbeat, so
+    // Realtime picks up each newly exchanged token without a manual setAuth
+    supabaseClient.realtime.accessToken = async () =>
+      (await tokenExchange.getSupabaseToken()) ?? supabaseAnonKey;
+  }
+
   // Create a proxy to intercept all operations
   const rowndClient = new Proxy(supabaseClient, {
     get(target, prop) {
@@ -100,18 +113,21 @@ export function createRowndSupabaseClient(options: RowndSupabaseOptions): Supaba
         };
       }
 
+      // Realtime doesn't go through fetch, so make sure the socket has a
+      // freshly exchanged token before channels are joined
+      if (prop === 'channel' && useRowndAuth) {
+        tokenExchange.getSupabaseToken().catch(error => {
+          console.warn('Failed to authenticate Realtime with Rownd:', error);
+        });
+      }
+
       // For database operations (from, rpc)
-      if (prop === 'from' || prop === 'rpc') {
-        // Note: This is where we hit a limitation
-        // Supabase's PostgREST expects Supabase JWTs for RLS
-        // Solutions:
-        // 1. Use Edge Functions as a proxy for all DB operations
-        // 2. Disable RLS and use service role (not recommended)
-        // 3. Create a custom PostgREST proxy that validates Rownd tokens
-        
+      if ((prop === 'from' || prop === 'rpc') && !useRowndAuth) {
+        // PostgREST only sees Rownd users through the exchanged Supabase JWT,
+        // so without useRowndAuth every query runs as the anon role
         console.warn(
-          `Direct database access with Rownd tokens requires custom Edge Functions. ` +
-          `Consider creating Edge Functions to proxy your database operations.`
+          `Direct database access with Rownd tokens requires useRowndAuth: true ` +
+          `and the token exchange in the _rownd_universal_proxy Edge Function.`
         );
       }
 
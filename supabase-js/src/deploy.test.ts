@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  PROXY_FUNCTION_SLUG,
+  checkProxyHealth,
+  deployProxy,
+  diffProxyCode,
+  getDeployedProxyCode,
+  getDeployedProxyInfo
+} from './deploy';
+import { createMemoryProxy, createMockToken } from './memory-proxy';
+import { DEFAULT_PROXY_POLICY, getProxyBuildInfo, getProxyFunctionCode } from './proxy';
+import { loadProxy } from './proxy-loader';
+import type { ProxyHealth } from './proxy-version';
+
+const SUPABASE_URL = 'http://localhost:54321';
+const PROXY_URL = `${SUPABASE_URL}/functions/v1/${PROXY_FUNCTION_SLUG}`;
+
+// Answers the deploy helpers' requests with `respond` and records them
+function stubFetch(respond: (url: string, init?: RequestInit) => Response | Promise<Response>) {
+  const requests: { url: string; headers: Headers }[] = [];
+  vi.stubGlobal('fetch', async (input: string | URL, init?: RequestInit) => {
+    requests.push({ url: String(input), headers: new Headers(init?.headers) });
+    return respond(String(input), init);
+  });
+  return requests;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('deployProxy', () => {
+  const options = { projectRef: 'abcd', accessToken: 'sbp_token', apiUrl: 'https://api.example.com/', log: () => {} };
+
+  it('sets the secrets, then uploads the function with JWT verification off', async () => {
+    const bodies: (string | FormData)[] = [];
+    const requests = stubFetch(async (_url, init) => {
+      bodies.push(init!.body as string | FormData);
+      return new Response('{}');
+    });
+    const policy = { tables: { notes: {} } };
+    await deployProxy({ ...options, policy, secrets: { ROWND_SUPABASE_JWT_SECRET: 'secret' } });
+
+    expect(requests.map(request => request.url)).toEqual([
+      'https://api.example.com/v1/projects/abcd/secrets',
+      `https://api.example.com/v1/projects/abcd/functions/deploy?slug=${PROXY_FUNCTION_SLUG}`
+    ]);
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer sbp_token');
+    expect(JSON.parse(bodies[0] as string)).toEqual([{ name: 'ROWND_SUPABASE_JWT_SECRET', value: 'secret' }]);
+
+    const form = bodies[1] as FormData;
+    expect(JSON.parse(form.get('metadata') as string)).toMatchObject({ name: PROXY_FUNCTION_SLUG, verify_jwt: false });
+    expect(await (form.get('file') as File).text()).toBe(getProxyFunctionCode(policy));
+  });
+
+  it('refuses reserved secret names and reports failed requests', async () => {
+    stubFetch(() => new Response('Unauthorized', { status: 401 }));
+
+    await expect(deployProxy({ ...options, secrets: { SUPABASE_URL: 'x' } })).rejects.toThrow(/reserved SUPABASE_ prefix/);
+    await expect(deployProxy(options)).rejects.toThrow(/failed with 401: Unauthorized/);
+  });
+
+  it('only logs the requests on a dry run', async () => {
+    const requests = stubFetch(() => new Response('{}'));
+    const lines: string[] = [];
+    await deployProxy({ ...options, dryRun: true, log: line => lines.push(line) });
+
+    expect(requests).toEqual([]);
+    expect(lines).toContain(`[dry run] POST https://api.example.com/v1/projects/abcd/functions/deploy?slug=${PROXY_FUNCTION_SLUG}`);
+  });
+});
+
+describe('checkProxyHealth', () => {
+  it('validates a Rownd token end to end', async () => {
+    const proxy = createMemoryProxy();
+    stubFetch((url, init) => proxy.handle(new Request(url, init)));
+
+    expect(await checkProxyHealth(SUPABASE_URL, 'anon', { rowndToken: createMockToken('user_1') })).toEqual({
+      ok: true,
+      authenticated: true,
+      status: 200,
+      message: 'Validated a token for user_1'
+    });
+  });
+
+  it('retries until the deployment answers, then describes failed checks', async () => {
+    let calls = 0;
+    stubFetch(() => (++calls < 3
+      ? new Response('Function not found', { status: 404 })
+      : Response.json({ status: 'degraded', checks: { jwks: { ok: false, error: 'timed out' }, supabase: { ok: true } } }, { status: 503 })));
+
+    const result = await checkProxyHealth(SUPABASE_URL, 'anon', { attempts: 3, interval: 0 });
+    expect(calls).toBe(3);
+    expect(result).toMatchObject({ ok: false, status: 503 });
+    expect(result.message).toContain('jwks');
+  });
+});
+
+describe('getDeployedProxyInfo', () => {
+  it('reads the fingerprint headers from the health route', async () => {
+    const proxy = createMemoryProxy();
+    stubFetch((url, init) => proxy.handle(new Request(url, init)));
+
+    expect(await getDeployedProxyInfo(SUPABASE_URL, 'service')).toEqual({ status: 'versioned', ...getProxyBuildInfo() });
+  });
+
+  it('tells a missing function apart from one that predates versioning', async () => {
+    stubFetch(() => new Response('Function not found', { status: 404 }));
+    expect(await getDeployedProxyInfo(SUPABASE_URL, 'service')).toEqual({ status: 'missing' });
+
+    stubFetch(() => Response.json({ status: 'ok' }));
+    expect(await getDeployedProxyInfo(SUPABASE_URL, 'service')).toEqual({ status: 'unversioned' });
+  });
+});
+
+describe('getDeployedProxyCode', () => {
+  const options = { projectRef: 'abcd', accessToken: 'sbp_token', apiUrl: 'https://api.example.com' };
+
+  it('downloads the entrypoint from the Management API', async () => {
+    const requests = stubFetch(() => {
+      const form = new FormData();
+      form.append('metadata', JSON.stringify({ entrypoint_path: 'index.ts' }));
+      form.append('file', new File(['// deployed'], 'source/index.ts'));
+      return new Response(form);
+    });
+
+    expect(await getDeployedProxyCode(options)).toBe('// deployed');
+    expect(requests[0].url).toBe(`https://api.example.com/v1/projects/abcd/functions/${PROXY_FUNCTION_SLUG}/body`);
+    expect(requests[0].headers.get('Authorization')).toBe('Bearer sbp_token');
+  });
+
+  it('resolves to null when the function is not deployed', async () => {
+    stubFetch(() => new Response('Not found', { status: 404 }));
+
+    expect(await getDeployedProxyCode(options)).toBeNull();
+  });
+});
+
+describe('diffProxyCode', () => {
+  it('is empty for identical code', () => {
+    expect(diffProxyCode('a\nb\nc', 'a\nb\nc')).toEqual([]);
+  });
+
+  it('marks lines edited by hand', () => {
+    expect(diffProxyCode('a\nb\nhand edit\nc', 'a\nb\nc\nd')).toEqual([
+      '@@ line 3',
+      '- hand edit',
+      '@@ line 5',
+      '+ d'
+    ]);
+  });
+});
+
+describe('GET /health', () => {
+  it('reports the same version fields as the authenticated health check', async () => {
+    const proxy = createMemoryProxy();
+    const response = await proxy.handle(new Request(`${PROXY_URL}/health`));
+    const body: ProxyHealth = await response.json();
+
+    expect(response.status).toBe(200);
+    const { protocol, build, policyHash } = getProxyBuildInfo();
+    expect(body).toMatchObject({ status: 'ok', protocol, build, policyHash });
+    expect(body.wireVersions).toEqual(expect.any(Array));
+    expect(body.checks).toMatchObject({ jwks: { ok: true, source: 'local' }, supabase: { ok: true } });
+    expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+  });
+
+  it('answers 503 with the failed checks when a dependency is down', async () => {
+    const env: Record<string, string> = { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY: 'service' };
+    const handle = await loadProxy(DEFAULT_PROXY_POLICY, {
+      createClient: () => ({}),
+      Deno: { env: { get: (name: string) => env[name] } },
+      fetch: async (input: string) => (input.startsWith(SUPABASE_URL)
+        ? new Response('Service Unavailable', { status: 503 })
+        : new Response('Internal Server Error', { status: 500, statusText: 'Internal Server Error' })),
+      console: { ...console, error: () => {} }
+    });
+    const response = await handle(new Request(`${PROXY_URL}/health`));
+    const body: ProxyHealth = await response.json();
+
+    expect(response.status).toBe(503);
+    expect(body.status).toBe('degraded');
+    expect(body.checks).toMatchObject({
+      jwks: { ok: false, source: 'https://api.rownd.io/hub/auth/keys', error: 'Failed to fetch Rownd JWKS: Internal Server Error' },
+      supabase: { ok: false, error: 'PostgREST responded 503' }
+    });
+  });
+});
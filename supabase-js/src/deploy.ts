@@ -0,0 +1,285 @@
+/**
+ * Proxy Deployment through the Supabase Management API
+ *
+ * Uploads the universal proxy as an Edge Function, which the Management API
+ * bundles server-side, sets the secrets it reads, and then checks that the
+ * deployed function answers. The API base URL is configurable so deployments
+ * can be exercised against a local stand-in.
+ */
+
+import { ProxyBuildInfo, ProxyPolicy, getProxyFunctionCode } from './proxy';
+
+export const PROXY_FUNCTION_SLUG = '_rownd_universal_proxy';
+export const DEFAULT_MANAGEMENT_API_URL = 'https://api.supabase.com';
+
+export interface DeployOptions {
+  projectRef: string;
+  accessToken: string; // Personal access token from https://supabase.com/dashboard/account/tokens
+  apiUrl?: string; // Management API base URL (default: https://api.supabase.com)
+  policy?: ProxyPolicy;
+  secrets?: Record<string, string>; // e.g. ROWND_SUPABASE_JWT_SECRET
+  dryRun?: boolean; // Log the requests instead of sending them
+  log?: (line: string) => void; // default: console.log
+}
+
+export interface HealthCheckOptions {
+  rowndToken?: string; // Verifies token validation too; without one the proxy's GET /health route is checked
+  attempts?: number; // default: 10
+  interval?: number; // Milliseconds between attempts (default: 3000)
+}
+
+export interface HealthCheckResult {
+  ok: boolean;
+  authenticated: boolean; // A Rownd token was validated end to end
+  status: number;
+  message: string;
+}
+
+/**
+ * Deploy the proxy function and set its secrets
+ */
+export async function deployProxy(options: DeployOptions): Promise<void> {
+  const { projectRef, accessToken, policy, secrets = {}, dryRun = false, log = console.log } = options;
+  const apiUrl = (options.apiUrl || DEFAULT_MANAGEMENT_API_URL).replace(/\/+$/, '');
+  const code = getProxyFunctionCode(policy);
+
+  // Supabase reserves the SUPABASE_ prefix and provides those values itself
+  const reserved = Object.keys(secrets).filter(name => name.startsWith('SUPABASE_'));
+  if (reserved.length > 0) {
+    throw new Error(`Secrets can't use the reserved SUPABASE_ prefix: ${reserved.join(', ')}`);
+  }
+
+  const request = async (method: string, path: string, body: BodyInit, contentType?: string) => {
+    const url = `${apiUrl}/v1/projects/${projectRef}${path}`;
+    if (dryRun) {
+      log(`[dry run] ${method} ${url}`);
+      return;
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(contentType ? { 'Content-Type': contentType } : {})
+      },
+      body
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`${method} ${path} failed with ${response.status}: ${text || response.statusText}`);
+    }
+  };
+
+  // Secrets go first so the new deployment starts with them
+  const names = Object.keys(secrets);
+  if (names.length > 0) {
+    log(`🔑 Setting secrets: ${names.join(', ')}`);
+    await request(
+      'POST',
+      '/secrets',
+      JSON.stringify(names.map(name => ({ name, value: secrets[name] }))),
+      'application/json'
+    );
+  }
+
+  // The proxy validates Rownd tokens itself, and may read them from the
+  // Authorization header, so the gateway's Supabase JWT check is turned off
+  const form = new FormData();
+  form.append('metadata', JSON.stringify({
+    name: PROXY_FUNCTION_SLUG,
+    entrypoint_path: 'index.ts',
+    verify_jwt: false
+  }));
+  form.append('file', new Blob([code], { type: 'application/typescript' }), 'index.ts');
+
+  log(`📦 Deploying ${PROXY_FUNCTION_SLUG} (${code.length} bytes)`);
+  await request('POST', `/functions/deploy?slug=${PROXY_FUNCTION_SLUG}`, form);
+}
+
+/**
+ * Call the deployed proxy's health check until it answers, since a new
+ * deployment can take a few seconds to start serving. Without a Rownd token
+ * this is the GET /health route, which also reports whether the proxy can
+ * reach Rownd's keys and the database.
+ */
+export async function checkProxyHealth(
+  supabaseUrl: string,
+  apiKey: string,
+  options: HealthCheckOptions = {}
+): Promise<HealthCheckResult> {
+  const { rowndToken, attempts = 10, interval = 3000 } = options;
+  let result: HealthCheckResult = { ok: false, authenticated: false, status: 0, message: 'Not checked' };
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+
+    try {
+      const functionUrl = `${supabaseUrl.replace(/\/+$/, '')}/functions/v1/${PROXY_FUNCTION_SLUG}`;
+      const response = rowndToken
+        ? await fetch(functionUrl, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              apikey: apiKey,
+              Authorization: `Bearer ${apiKey}`,
+              'X-Rownd-Token': rowndToken
+            },
+            body: JSON.stringify({ resource: 'health' })
+          })
+        : await fetch(`${functionUrl}/health`, { headers: { apikey: apiKey, Authorization: `Bearer ${apiKey}` } });
+      const body = await response.json().catch(() => null);
+
+      if (response.ok && body?.status === 'ok') {
+        return rowndToken
+          ? { ok: true, authenticated: true, status: response.status, message: `Validated a token for ${body.userId}` }
+          : { ok: true, authenticated: false, status: response.status, message: 'Proxy is running and ready' };
+      }
+      // Proxies without the health route refuse the request, which still proves they're running
+      if (!rowndToken && response.status === 401 && /token/i.test(body?.error ?? '')) {
+        return { ok: true, authenticated: false, status: response.status, message: 'Proxy is running' };
+      }
+      result = {
+        ok: false,
+        authenticated: false,
+        status: response.status,
+        message: body?.checks ? describeFailedChecks(body.checks) : body?.error || response.statusText
+      };
+
+      // A bad token won't get better by retrying
+      if (rowndToken && response.status === 401) {
+        return result;
+      }
+    } catch (error: any) {
+      result = { ok: false, authenticated: false, status: 0, message: error.message };
+    }
+  }
+
+  return result;
+}
+
+// What the deployed proxy says about itself: nothing deployed, a proxy from
+// before versioning, or the fingerprints of its code and access policy
+export type DeployedProxyInfo =
+  | { status: 'missing' }
+  | { status: 'unversioned' }
+  | ({ status: 'versioned' } & ProxyBuildInfo);
+
+export interface FunctionSourceOptions {
+  projectRef: string;
+  accessToken: string;
+  apiUrl?: string; // default: https://api.supabase.com
+}
+
+/**
+ * Read the version headers the deployed proxy sends on every response, which
+ * needs no Rownd token
+ */
+export async function getDeployedProxyInfo(supabaseUrl: string, apiKey: string): Promise<DeployedProxyInfo> {
+  const response = await fetch(`${supabaseUrl.replace(/\/+$/, '')}/functions/v1/${PROXY_FUNCTION_SLUG}/health`, {
+    headers: { apikey: apiKey, Authorization: `Bearer ${apiKey}` }
+  });
+  await response.body?.cancel();
+
+  if (response.status === 404) {
+    return { status: 'missing' };
+  }
+  const protocol = response.headers.get('x-rownd-proxy-protocol');
+  if (!protocol) {
+    return { status: 'unversioned' };
+  }
+  return {
+    status: 'versioned',
+    protocol: Number(protocol),
+    build: response.headers.get('x-rownd-proxy-build') ?? '',
+    policyHash: response.headers.get('x-rownd-proxy-policy') ?? ''
+  };
+}
+
+/**
+ * Download the deployed proxy's source through the Management API, which
+ * sends a function's files as multipart form data. Resolves to null when the
+ * function isn't deployed.
+ */
+export async function getDeployedProxyCode(options: FunctionSourceOptions): Promise<string | null> {
+  const apiUrl = (options.apiUrl || DEFAULT_MANAGEMENT_API_URL).replace(/\/+$/, '');
+  const path = `/v1/projects/${options.projectRef}/functions/${PROXY_FUNCTION_SLUG}/body`;
+  const response = await fetch(`${apiUrl}${path}`, {
+    headers: { Authorization: `Bearer ${options.accessToken}`, Accept: 'multipart/form-data' }
+  });
+  if (response.status === 404) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`GET ${path} failed with ${response.status}: ${text || response.statusText}`);
+  }
+
+  let entrypoint: File | undefined;
+  (await response.formData()).forEach(value => {
+    if (typeof value !== 'string' && /(^|\/)index\.ts$/.test(value.name)) {
+      entrypoint = value;
+    }
+  });
+  if (!entrypoint) {
+    throw new Error(`The deployed ${PROXY_FUNCTION_SLUG} has no index.ts`);
+  }
+  return entrypoint.text();
+}
+
+/**
+ * Line diff of the deployed proxy against the package's, as "-" (deployed
+ * only) and "+" (package only) lines under "@@ line N" headers, numbered by
+ * the deployed file. Empty when the two match.
+ */
+export function diffProxyCode(deployed: string, expected: string): string[] {
+  const a = deployed.split('\n');
+  const b = expected.split('\n');
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const width = b.length + 1;
+  const common = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i * width + j] = a[i] === b[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  let inHunk = false;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      inHunk = false;
+      i++;
+      j++;
+      continue;
+    }
+    if (!inHunk) {
+      lines.push(`@@ line ${i + 1}`);
+      inHunk = true;
+    }
+    if (j >= b.length || (i < a.length && common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+      lines.push(`- ${a[i++]}`);
+    } else {
+      lines.push(`+ ${b[j++]}`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Summarize the failed dependency checks of a GET /health response, e.g.
+ * "Not ready: jwks (fetch failed)"
+ */
+export function describeFailedChecks(checks: Record<string, { ok: boolean; error?: string }>): string {
+  const failed = Object.entries(checks)
+    .filter(([, check]) => !check.ok)
+    .map(([name, check]) => (check.error ? `${name} (${check.error})` : name));
+  return failed.length > 0 ? `Not ready: ${failed.join(', ')}` : 'Ready';
+}
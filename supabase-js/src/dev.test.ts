@@ -0,0 +1,100 @@
+import { existsSync } from 'fs';
+import http from 'http';
+import net, { AddressInfo } from 'net';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DevServer, startDevServer } from './dev';
+
+let supabase: http.Server;
+let supabaseUrl: string;
+let server: DevServer;
+let lines: string[];
+
+// Stands in for `supabase start`: PostgREST answers, and WebSocket upgrades
+// are accepted and echoed
+function startSupabase() {
+  const fake = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ path: req.url }));
+  });
+  fake.on('upgrade', (req, socket, head) => {
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nX-Upgraded-Path: ${req.url}\r\n\r\n`);
+    socket.write(head);
+    socket.pipe(socket);
+  });
+  return new Promise<http.Server>(resolve => fake.listen(0, '127.0.0.1', () => resolve(fake)));
+}
+
+function freePort() {
+  return new Promise<number>(resolve => {
+    const probe = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+beforeEach(async () => {
+  supabase = await startSupabase();
+  supabaseUrl = `http://127.0.0.1:${(supabase.address() as AddressInfo).port}`;
+  lines = [];
+  server = await startDevServer({
+    supabaseUrl,
+    serviceRoleKey: 'service',
+    anonKey: 'anon',
+    port: await freePort(),
+    log: line => lines.push(line)
+  });
+});
+
+afterEach(async () => {
+  await server.close();
+  await new Promise(resolve => supabase.close(resolve));
+});
+
+describe('startDevServer', () => {
+  it('runs the proxy without writing into the project', async () => {
+    const response = await fetch(`${server.url}/functions/v1/_rownd_universal_proxy/health`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.checks).toMatchObject({ jwks: { ok: true, source: 'local' }, supabase: { ok: true } });
+    expect(existsSync(path.join(process.cwd(), 'node_modules', '.rownd-dev'))).toBe(false);
+  });
+
+  it('signs tokens the proxy accepts', async () => {
+    const { token } = await (await fetch(`${server.url}/__rownd/token?sub=user_1`)).json();
+    const response = await fetch(`${server.url}/functions/v1/_rownd_universal_proxy`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Rownd-Token': token },
+      body: JSON.stringify({ resource: 'health' })
+    });
+
+    expect(await response.json()).toMatchObject({ status: 'ok', userId: 'user_1' });
+    expect(lines.some(line => line.startsWith('POST health') && line.includes('user=user_1'))).toBe(true);
+  });
+
+  it('passes other requests through to Supabase', async () => {
+    const response = await fetch(`${server.url}/rest/v1/todos?select=*`);
+
+    expect(await response.json()).toEqual({ path: '/rest/v1/todos?select=*' });
+  });
+
+  it('tunnels WebSocket upgrades to Supabase', async () => {
+    const { port } = new URL(server.url);
+    const socket = net.connect(Number(port), '127.0.0.1');
+    socket.write('GET /realtime/v1/websocket HTTP/1.1\r\nHost: localhost\r\nConnection: Upgrade\r\nUpgrade: websocket\r\n\r\nping');
+
+    const received = await new Promise<string>(resolve => {
+      let data = '';
+      socket.on('data', chunk => {
+        data += chunk;
+        if (data.endsWith('ping')) resolve(data);
+      });
+    });
+    socket.destroy();
+
+    expect(received).toMatch(/^HTTP\/1\.1 101/);
+    expect(received).toContain('X-Upgraded-Path: /realtime/v1/websocket');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Local Development Server
+ *
+ * Runs the universal proxy in Node against a local Supabase stack (started
+ * with `supabase start`), so frontends can be developed without deploying
+ * Edge Functions. Tokens are verified against a key pair generated at
+ * startup instead of Rownd's JWKS, and each proxied request is logged with
+ * the user it resolved to and the filters that reached PostgREST.
+ *
+ * Point createClient() at the dev server's URL instead of your Supabase URL:
+ * the proxy is served at /functions/v1/_rownd_universal_proxy and every other
+ * request, including Realtime, is passed through to Supabase.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs/promises';
+import http from 'http';
+import net from 'net';
+import { Readable } from 'stream';
+import tls from 'tls';
+import { createClient } from '@supabase/supabase-js';
+import * as jose from 'jose';
+import { DEFAULT_PROXY_POLICY, ProxyPolicy } from './proxy';
+import { loadProxy } from './proxy-loader';
+
+export interface DevServerOptions {
+  supabaseUrl: string; // Local Supabase API, e.g. http://127.0.0.1:54321
+  serviceRoleKey: string;
+  anonKey: string;
+  jwtSecret?: string; // Local JWT secret; enables token exchange and functions with role 'user'
+  policy?: ProxyPolicy;
+  port?: number; // default: 54329
+  host?: string; // Interface to bind (default: '127.0.0.1'); anyone who can reach it can mint tokens
+  log?: (line: string) => void; // default: console.log
+}
+
+export interface DevTokenOptions {
+  claims?: Record<string, unknown>; // Extra claims, e.g. roles or a verified email
+  expiresIn?: number; // Seconds (default: 3600)
+}
+
+export interface DevServer {
+  url: string; // Pass this to createClient() in place of the Supabase URL
+  signToken(userId: string, options?: DevTokenOptions): Promise<string>;
+  close(): Promise<void>;
+}
+
+const DEFAULT_PORT = 54329;
+const DEFAULT_HOST = '127.0.0.1';
+const PROXY_PATH = '/functions/v1/_rownd_universal_proxy';
+const TOKEN_PATH = '/__rownd/token';
+const ROWND_ISSUER = 'https://api.rownd.io';
+const ROWND_CLAIM_PREFIX = 'https://auth.rownd.io/';
+const DEV_KEY_ID = 'rownd-dev';
+
+// Request being proxied, so database calls made while handling it can be
+// logged under it
+const currentRequest = new AsyncLocalStorage<{ log: (line: string) => void }>();
+
+/**
+ * Start the proxy on a local port
+ *
+ * @example
+ * ```typescript
+ * const server = await startDevServer({ supabaseUrl, serviceRoleKey, anonKey });
+ * const token = await server.signToken('user_123', { claims: { email: 'a@example.com' } });
+ * ```
+ */
+export async function startDevServer(options: DevServerOptions): Promise<DevServer> {
+  const { port = DEFAULT_PORT, host = DEFAULT_HOST, log = console.log } = options;
+  const supabaseUrl = options.supabaseUrl.replace(/\/+$/, '');
+
+  const { publicKey, privateKey } = await jose.generateKeyPair('RS256');
+  const jwks = { keys: [{ ...(await jose.exportJWK(publicKey)), kid: DEV_KEY_ID, alg: 'RS256', use: 'sig' }] };
+
+  const signToken = async (userId: string, tokenOptions: DevTokenOptions = {}) => {
+    const { claims = {}, expiresIn = 3600 } = tokenOptions;
+    return new jose.SignJWT({
+      [`${ROWND_CLAIM_PREFIX}app_user_id`]: userId,
+      [`${ROWND_CLAIM_PREFIX}is_verified_user`]: true,
+      ...claims,
+    })
+      .setProtectedHeader({ alg: 'RS256', typ: 'JWT', kid: DEV_KEY_ID })
+      .setSubject(userId)
+      .setIssuer(ROWND_ISSUER)
+      .setAudience(ROWND_ISSUER)
+      .setIssuedAt()
+      .setExpirationTime(Math.floor(Date.now() / 1000) + expiresIn)
+      .sign(privateKey);
+  };
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = logDatabaseCalls(originalFetch, supabaseUrl);
+
+  const env: Record<string, string | undefined> = {
+    SUPABASE_URL: supabaseUrl,
+    SUPABASE_SERVICE_ROLE_KEY: options.serviceRoleKey,
+    SUPABASE_ANON_KEY: options.anonKey,
+    ROWND_SUPABASE_JWT_SECRET: options.jwtSecret,
+    ROWND_JWKS: JSON.stringify(jwks),
+  };
+  // The proxy's imports come from this package, with just enough of Deno
+  // around them; fetch is left to the global so database calls are logged
+  const handler = await loadProxy(options.policy ?? DEFAULT_PROXY_POLICY, {
+    createClient,
+    jose,
+    Deno: {
+      env: { get: (name: string) => env[name] ?? process.env[name] },
+      readTextFile: (filePath: string) => fs.readFile(filePath, 'utf-8'),
+    },
+  });
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || '/', `http://localhost:${port}`);
+
+      if (url.pathname === TOKEN_PATH) {
+        const claims = url.searchParams.get('claims');
+        const token = await signToken(url.searchParams.get('sub') || 'dev_user', {
+          claims: claims ? JSON.parse(claims) : undefined,
+        });
+        await sendResponse(res, Response.json({ token }, { headers: { 'Access-Control-Allow-Origin': '*' } }));
+        return;
+      }
+
+      if (url.pathname !== PROXY_PATH && !url.pathname.startsWith(`${PROXY_PATH}/`)) {
+        const passthrough = toRequest(req, new URL(url.pathname + url.search, supabaseUrl));
+        await sendResponse(res, await originalFetch(passthrough));
+        return;
+      }
+
+      const request = toRequest(req, url);
+      const lines: string[] = [await describeRequest(request)];
+      const started = Date.now();
+      const response = await currentRequest.run({ log: line => lines.push(`    ${line}`) }, () => handler(request));
+      lines.push(`    → ${response.status} (${Date.now() - started} ms)`);
+      log(lines.join('\n'));
+      await sendResponse(res, response);
+    } catch (error: any) {
+      log(`❌ ${req.method} ${req.url}: ${error.message}`);
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'application/json' });
+      }
+      res.end(JSON.stringify({ error: error.message }));
+    }
+  });
+
+  // Realtime connects over WebSocket; tunnel it straight to Supabase, over
+  // TLS when Supabase is served over https
+  server.on('upgrade', (req, socket, head) => {
+    const target = new URL(supabaseUrl);
+    const secure = target.protocol === 'https:';
+    const targetPort = Number(target.port) || (secure ? 443 : 80);
+    const onConnect = () => {
+      const headers = Object.entries(req.headers)
+        .map(([name, value]) => `${name}: ${name === 'host' ? target.host : value}`)
+        .join('\r\n');
+      upstream.write(`${req.method} ${req.url} HTTP/1.1\r\n${headers}\r\n\r\n`);
+      upstream.write(head);
+      upstream.pipe(socket).pipe(upstream);
+    };
+    const upstream = secure
+      ? tls.connect({ host: target.hostname, port: targetPort, servername: target.hostname }, onConnect)
+      : net.connect(targetPort, target.hostname, onConnect);
+    upstream.on('error', () => socket.destroy());
+    socket.on('error', () => upstream.destroy());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, resolve);
+  });
+
+  if (!['127.0.0.1', '::1', 'localhost'].includes(host)) {
+    log(`Warning: ${TOKEN_PATH} signs tokens for any user without authentication, and ${host} exposes it beyond this machine`);
+  }
+
+  // Wildcard addresses aren't reachable as-is, so hand out a loopback URL
+  const urlHost = ['0.0.0.0', '::'].includes(host) ? DEFAULT_HOST : host.includes(':') ? `[${host}]` : host;
+
+  return {
+    url: `http://${urlHost}:${port}`,
+    signToken,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        globalThis.fetch = originalFetch;
+        server.close(error => (error ? reject(error) : resolve()));
+      }),
+  };
+}
+
+// Log the PostgREST and Storage calls the proxy makes, which show the
+// ownership filters it added to the client's query
+function logDatabaseCalls(fetch: typeof globalThis.fetch, supabaseUrl: string): typeof globalThis.fetch {
+  return (input, init) => {
+    const request = currentRequest.getStore();
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    if (request && url.href.startsWith(supabaseUrl)) {
+      const method = init?.method || (input instanceof Request ? input.method : 'GET');
+      const filters: string[] = [];
+      url.searchParams.forEach((value, name) => filters.push(`${name}=${value}`));
+      request.log(`${method} ${url.pathname.replace(/^\/rest\/v1\//, '')}  ${filters.join('  ')}`.trimEnd());
+    }
+    return fetch(input, init);
+  };
+}
+
+async function describeRequest(request: Request): Promise<string> {
+  let user = 'anonymous';
+  const token = request.headers.get('x-rownd-token') ||
+    request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (token) {
+    try {
+      user = String(jose.decodeJwt(token).sub ?? user);
+    } catch {
+      // Not a JWT, e.g. the anon key
+    }
+  }
+
+  const uploadId = request.headers.get('x-rownd-upload-id');
+  if (uploadId) {
+    return `${request.method} storage.upload-chunk ${uploadId}  user=${user}`;
+  }
+  if (request.method !== 'POST') {
+    return `${request.method}  user=${user}`;
+  }
+
+  const body = await request.clone().json().catch(() => ({}));
+  const action = [body.resource, body.operation].filter(Boolean).join('.');
+  const target = body.table || body.bucket || body.bucketId || body.functionName;
+  return [`POST ${action}`, target, ` user=${user}`].filter(Boolean).join(' ');
+}
+
+function toRequest(req: http.IncomingMessage, url: URL): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (name !== 'host' && value !== undefined) {
+      headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+  }
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  return new Request(url, {
+    method: req.method,
+    headers,
+    body: hasBody ? (Readable.toWeb(req) as any) : undefined,
+    duplex: 'half',
+  } as RequestInit);
+}
+
+async function sendResponse(res: http.ServerResponse, response: Response): Promise<void> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    // fetch() has already decoded the body
+    if (name !== 'content-encoding' && name !== 'content-length') {
+      headers[name] = value;
+    }
+  });
+  res.writeHead(response.status, headers);
+
+  if (response.body) {
+    for await (const chunk of response.body as any) {
+      res.write(chunk);
+    }
+  }
+  res.end();
+}
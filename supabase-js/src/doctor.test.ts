@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DoctorCheck, runDoctor } from './doctor';
+import { createMemoryProxy } from './memory-proxy';
+
+const SUPABASE_URL = 'http://localhost:54321';
+
+// Sends proxy calls to the in-memory proxy, Rownd's key set to one key and
+// anything else to `respond`
+function stubFetch(respond: (url: string, init?: RequestInit) => Response | undefined = () => undefined) {
+  const proxy = createMemoryProxy();
+  vi.stubGlobal('fetch', async (input: string | URL, init?: RequestInit) => {
+    const url = String(input);
+    const response = respond(url, init);
+    if (response) return response;
+    if (url === 'https://api.rownd.io/hub/auth/keys') return Response.json({ keys: [{ kid: 'sig-1' }] });
+    if (url.includes('/functions/v1/')) return proxy.handle(new Request(url, init));
+    return new Response('Not found', { status: 404 });
+  });
+}
+
+const byName = (checks: DoctorCheck[]) => Object.fromEntries(checks.map(check => [check.name, check]));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('runDoctor', () => {
+  it('passes a current proxy and skips checks without inputs', async () => {
+    stubFetch();
+    const checks = byName(await runDoctor({ supabaseUrl: `${SUPABASE_URL}/`, anonKey: 'anon' }));
+
+    expect(checks['Proxy function'].status).toBe('pass');
+    expect(checks['Rownd signing keys']).toMatchObject({ status: 'pass', message: expect.stringMatching(/^1 key/) });
+    for (const name of ['Proxy deployment', 'Sample token', 'Proxy accepts token', 'Tables', 'Buckets', 'CORS']) {
+      expect(checks[name].status).toBe('skip');
+    }
+  });
+
+  it('tells a missing function apart from one the gateway guards', async () => {
+    stubFetch(url => (url.endsWith('/health') ? new Response('Function not found', { status: 404 }) : undefined));
+    expect(byName(await runDoctor({ supabaseUrl: SUPABASE_URL, anonKey: 'anon' }))['Proxy function'])
+      .toMatchObject({ status: 'fail', message: '_rownd_universal_proxy is not deployed' });
+
+    stubFetch(url => (url.endsWith('/health') ? Response.json({ msg: 'Invalid JWT' }, { status: 401 }) : undefined));
+    expect(byName(await runDoctor({ supabaseUrl: SUPABASE_URL, anonKey: 'anon' }))['Proxy function'].message)
+      .toMatch(/gateway rejected/);
+  });
+
+  it('warns when the deployment verifies JWTs', async () => {
+    stubFetch(url => (url.startsWith('https://api.supabase.com/')
+      ? Response.json({ version: 3, status: 'ACTIVE', updated_at: 0, verify_jwt: true })
+      : undefined));
+    const checks = byName(await runDoctor({ supabaseUrl: 'https://abcd.supabase.co', accessToken: 'sbp_token' }));
+
+    expect(checks['Proxy deployment']).toMatchObject({ status: 'warn', message: expect.stringMatching(/JWT verification is on$/) });
+  });
+
+  it('explains a sample token that is not a JWT', async () => {
+    stubFetch();
+    const checks = byName(await runDoctor({ supabaseUrl: SUPABASE_URL, rowndToken: 'anon-key' }));
+
+    expect(checks['Sample token']).toMatchObject({ status: 'fail', hint: expect.stringMatching(/Rownd access token/) });
+  });
+
+  it('reports missing tables, owner columns and buckets', async () => {
+    stubFetch(url => {
+      if (url.includes('/rest/v1/todos?')) return Response.json({ code: '42703' }, { status: 400 });
+      if (url.includes('/rest/v1/notes?')) return Response.json({ code: 'PGRST205' }, { status: 404 });
+      if (url.endsWith('/storage/v1/bucket/avatars')) return Response.json({ public: true });
+      return undefined;
+    });
+    const checks = byName(await runDoctor({
+      supabaseUrl: SUPABASE_URL,
+      serviceKey: 'service',
+      policy: { tables: { todos: {}, notes: {} } },
+      buckets: ['avatars', 'docs']
+    }));
+
+    expect(checks['Table todos']).toMatchObject({ status: 'fail', message: 'Owner column user_id does not exist' });
+    expect(checks['Table notes'].message).toMatch(/does not exist or is not exposed/);
+    expect(checks['Bucket avatars']).toMatchObject({ status: 'pass', message: 'Exists (public)' });
+    expect(checks['Bucket docs']).toMatchObject({ status: 'fail', message: 'Does not exist' });
+  });
+
+  it('checks the preflight a browser sends from the app', async () => {
+    stubFetch();
+    expect(byName(await runDoctor({ supabaseUrl: SUPABASE_URL, origin: 'https://app.example.com' })).CORS.status).toBe('pass');
+
+    stubFetch((_url, init) => (init?.method === 'OPTIONS'
+      ? new Response(null, { headers: { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'authorization, apikey' } })
+      : undefined));
+    expect(byName(await runDoctor({ supabaseUrl: SUPABASE_URL, origin: 'https://app.example.com' })).CORS.message)
+      .toBe('Preflight does not allow: x-client-info, content-type, x-rownd-token');
+  });
+});
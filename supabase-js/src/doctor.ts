@@ -0,0 +1,402 @@
+/**
+ * Integration Diagnostics
+ *
+ * Checks each piece a Rownd + Supabase integration depends on, from Rownd's
+ * signing keys through the deployed proxy to the tables and buckets it
+ * scopes, and reports what failed with a hint on how to fix it. Checks whose
+ * inputs weren't supplied are skipped rather than failed.
+ */
+
+import * as jose from 'jose';
+import { DEFAULT_MANAGEMENT_API_URL, PROXY_FUNCTION_SLUG, describeFailedChecks } from './deploy';
+import { DEFAULT_PROXY_POLICY, ProxyPolicy, getProxyBuildInfo } from './proxy';
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  message: string;
+  hint?: string; // How to fix a failed or warned check
+}
+
+export interface DoctorOptions {
+  supabaseUrl: string;
+  anonKey?: string; // Used to call the proxy the way the app does
+  serviceKey?: string; // Needed to inspect tables and buckets
+  projectRef?: string;
+  accessToken?: string; // Management API token, to read the deployed function's version
+  apiUrl?: string; // Management API base URL (default: https://api.supabase.com)
+  policy?: ProxyPolicy; // The access policy compiled into the proxy
+  buckets?: string[]; // Storage buckets the app uses
+  origin?: string; // The app's origin, e.g. https://app.example.com
+  rowndToken?: string; // A sample Rownd access token
+}
+
+const ROWND_ISSUER = 'https://api.rownd.io';
+const ROWND_JWKS_URL = 'https://api.rownd.io/hub/auth/keys';
+
+// Headers supabase-js and this SDK send on proxy calls
+const CLIENT_HEADERS = ['authorization', 'x-client-info', 'apikey', 'content-type', 'x-rownd-token'];
+
+/**
+ * Run every check and return them in order
+ */
+export async function runDoctor(options: DoctorOptions): Promise<DoctorCheck[]> {
+  const supabaseUrl = options.supabaseUrl.replace(/\/+$/, '');
+  const functionUrl = `${supabaseUrl}/functions/v1/${PROXY_FUNCTION_SLUG}`;
+  const apiKey = options.anonKey || options.serviceKey;
+
+  return [
+    await checkProxyDeployed(functionUrl, apiKey),
+    await checkProxyVersion(options),
+    await checkJwks(),
+    ...(await checkSampleToken(options.rowndToken)),
+    await checkProxyValidatesToken(functionUrl, apiKey, options.rowndToken),
+    ...(await checkTables(supabaseUrl, options.serviceKey, options.policy ?? DEFAULT_PROXY_POLICY)),
+    ...(await checkBuckets(supabaseUrl, options.serviceKey, options.buckets ?? [])),
+    await checkCors(functionUrl, options.origin)
+  ];
+}
+
+async function checkProxyDeployed(functionUrl: string, apiKey?: string): Promise<DoctorCheck> {
+  const name = 'Proxy function';
+  if (!apiKey) {
+    return { name, status: 'skip', message: 'No API key given', hint: 'Pass --anon-key or --service-key' };
+  }
+
+  try {
+    const response = await fetch(`${functionUrl}/health`, {
+      headers: { apikey: apiKey, Authorization: `Bearer ${apiKey}` }
+    });
+    const body = await response.json().catch(() => null);
+
+    if (response.status === 503 && body?.checks) {
+      return {
+        name,
+        status: 'fail',
+        message: describeFailedChecks(body.checks),
+        hint: 'The proxy is deployed but can\'t reach a dependency; check its secrets and the function logs'
+      };
+    }
+    // Proxies without the health route answer 401 with their own message
+    if (response.ok || (response.status === 401 && typeof body?.error === 'string')) {
+      const protocol = response.headers.get('x-rownd-proxy-protocol');
+      const build = response.headers.get('x-rownd-proxy-build');
+      const expected = getProxyBuildInfo();
+      if (!protocol) {
+        return {
+          name,
+          status: 'warn',
+          message: `${PROXY_FUNCTION_SLUG} is responding but predates protocol versioning`,
+          hint: 'Run `npx rownd-supabase upgrade`'
+        };
+      }
+      if (Number(protocol) !== expected.protocol || build !== expected.build) {
+        return {
+          name,
+          status: Number(protocol) === expected.protocol ? 'warn' : 'fail',
+          message: `Deployed protocol ${protocol}, build ${build}; this package has protocol ${expected.protocol}, build ${expected.build}`,
+          hint: 'Run `npx rownd-supabase upgrade`'
+        };
+      }
+      return { name, status: 'pass', message: `${PROXY_FUNCTION_SLUG} is responding (protocol ${protocol}, build ${build})` };
+    }
+    if (response.status === 404) {
+      return {
+        name,
+        status: 'fail',
+        message: `${PROXY_FUNCTION_SLUG} is not deployed`,
+        hint: 'Run `npx rownd-supabase setup` to deploy it'
+      };
+    }
+    if (response.status === 401) {
+      return {
+        name,
+        status: 'fail',
+        message: 'The Supabase gateway rejected the request before it reached the proxy',
+        hint: 'Redeploy with `npx rownd-supabase setup`, which turns off JWT verification for the proxy'
+      };
+    }
+    return {
+      name,
+      status: 'fail',
+      message: `Proxy responded ${response.status}: ${body?.error || body?.message || response.statusText}`,
+      hint: 'Check the function logs in the Supabase dashboard'
+    };
+  } catch (error: any) {
+    return { name, status: 'fail', message: `Could not reach ${functionUrl}: ${error.message}`, hint: 'Check --url' };
+  }
+}
+
+async function checkProxyVersion(options: DoctorOptions): Promise<DoctorCheck> {
+  const name = 'Proxy deployment';
+  const projectRef = options.projectRef || options.supabaseUrl.match(/https:\/\/([^.]+)\.supabase\.co/)?.[1];
+  if (!options.accessToken || !projectRef) {
+    return {
+      name,
+      status: 'skip',
+      message: 'No Management API access token',
+      hint: 'Pass --access-token (and --project-ref for custom domains) to see the deployed version'
+    };
+  }
+
+  const apiUrl = (options.apiUrl || DEFAULT_MANAGEMENT_API_URL).replace(/\/+$/, '');
+  try {
+    const response = await fetch(`${apiUrl}/v1/projects/${projectRef}/functions/${PROXY_FUNCTION_SLUG}`, {
+      headers: { Authorization: `Bearer ${options.accessToken}` }
+    });
+    if (response.status === 404) {
+      return { name, status: 'fail', message: 'No deployment found', hint: 'Run `npx rownd-supabase setup`' };
+    }
+    if (!response.ok) {
+      return { name, status: 'fail', message: `Management API responded ${response.status}`, hint: 'Check --access-token' };
+    }
+
+    const fn = await response.json();
+    const message = `Version ${fn.version}, ${String(fn.status).toLowerCase()}, updated ${new Date(fn.updated_at).toISOString()}`;
+    if (fn.verify_jwt) {
+      return {
+        name,
+        status: 'warn',
+        message: `${message}; JWT verification is on`,
+        hint: 'Bearer token sources and non-JWT API keys are rejected by the gateway; redeploy with `npx rownd-supabase setup`'
+      };
+    }
+    return { name, status: fn.status === 'ACTIVE' ? 'pass' : 'warn', message };
+  } catch (error: any) {
+    return { name, status: 'fail', message: `Could not reach the Management API: ${error.message}` };
+  }
+}
+
+async function checkJwks(): Promise<DoctorCheck> {
+  const name = 'Rownd signing keys';
+  try {
+    const response = await fetch(ROWND_JWKS_URL);
+    const body = await response.json().catch(() => null);
+    if (response.ok && Array.isArray(body?.keys) && body.keys.length > 0) {
+      return { name, status: 'pass', message: `${body.keys.length} key(s) at ${ROWND_JWKS_URL}` };
+    }
+    return { name, status: 'fail', message: `${ROWND_JWKS_URL} responded ${response.status} without keys` };
+  } catch (error: any) {
+    return {
+      name,
+      status: 'fail',
+      message: `Could not reach ${ROWND_JWKS_URL}: ${error.message}`,
+      hint: 'Check outbound network access; offline setups can set ROWND_JWKS on the proxy instead'
+    };
+  }
+}
+
+// Check signature, issuer, audience and expiry separately so the report
+// says which one a rejected token fails
+async function checkSampleToken(token?: string): Promise<DoctorCheck[]> {
+  if (!token) {
+    return [{
+      name: 'Sample token',
+      status: 'skip',
+      message: 'No token given',
+      hint: 'Pass --rownd-token with an access token from your app, e.g. from `await rownd.getAccessToken()`'
+    }];
+  }
+
+  let payload: jose.JWTPayload;
+  try {
+    payload = jose.decodeJwt(token);
+  } catch (error: any) {
+    return [{
+      name: 'Sample token',
+      status: 'fail',
+      message: `Not a JWT: ${error.message}`,
+      hint: 'Pass the Rownd access token, not the Supabase anon key or an app key'
+    }];
+  }
+
+  const checks: DoctorCheck[] = [];
+  try {
+    await jose.compactVerify(token, jose.createRemoteJWKSet(new URL(ROWND_JWKS_URL)));
+    checks.push({ name: 'Token signature', status: 'pass', message: 'Signed by a current Rownd key' });
+  } catch (error: any) {
+    checks.push({
+      name: 'Token signature',
+      status: 'fail',
+      message: error.message,
+      hint: /^ERR_JW/.test(error.code ?? '')
+        ? 'The token was not issued by Rownd, or its key was rotated out'
+        : 'Could not fetch Rownd\'s signing keys; see the check above'
+    });
+  }
+
+  checks.push(payload.iss === ROWND_ISSUER
+    ? { name: 'Token issuer', status: 'pass', message: String(payload.iss) }
+    : { name: 'Token issuer', status: 'fail', message: `Expected ${ROWND_ISSUER}, got ${payload.iss}` });
+
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  checks.push(audiences.includes(ROWND_ISSUER)
+    ? { name: 'Token audience', status: 'pass', message: audiences.join(', ') }
+    : { name: 'Token audience', status: 'fail', message: `Expected ${ROWND_ISSUER}, got ${audiences.join(', ')}` });
+
+  const secondsLeft = (payload.exp ?? 0) - Math.floor(Date.now() / 1000);
+  checks.push(secondsLeft > 0
+    ? { name: 'Token expiry', status: 'pass', message: `Expires in ${Math.ceil(secondsLeft / 60)} minute(s)` }
+    : {
+        name: 'Token expiry',
+        status: 'fail',
+        message: payload.exp ? `Expired ${Math.ceil(-secondsLeft / 60)} minute(s) ago` : 'No exp claim',
+        hint: 'Get a fresh token; clocks more than a few seconds off also cause this'
+      });
+
+  if (!payload.sub) {
+    checks.push({ name: 'Token subject', status: 'fail', message: 'No sub claim', hint: 'The proxy needs sub to scope rows' });
+  }
+  return checks;
+}
+
+async function checkProxyValidatesToken(functionUrl: string, apiKey?: string, token?: string): Promise<DoctorCheck> {
+  const name = 'Proxy accepts token';
+  if (!token || !apiKey) {
+    return { name, status: 'skip', message: 'Needs --rownd-token and an API key' };
+  }
+
+  try {
+    const response = await fetch(functionUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        apikey: apiKey,
+        Authorization: `Bearer ${apiKey}`,
+        'X-Rownd-Token': token
+      },
+      body: JSON.stringify({ resource: 'health' })
+    });
+    const body = await response.json().catch(() => null);
+    if (response.ok && body?.status === 'ok') {
+      return { name, status: 'pass', message: `Resolved user ${body.userId}` };
+    }
+    return {
+      name,
+      status: 'fail',
+      message: `Proxy responded ${response.status}: ${body?.error || response.statusText}`,
+      hint: response.status === 401
+        ? 'The proxy could not validate the token; see the token checks above'
+        : 'Check the function logs in the Supabase dashboard'
+    };
+  } catch (error: any) {
+    return { name, status: 'fail', message: error.message };
+  }
+}
+
+// Ask PostgREST for just the owner column; a missing table or column errors
+async function checkTables(supabaseUrl: string, serviceKey: string | undefined, policy: ProxyPolicy): Promise<DoctorCheck[]> {
+  const tables = Object.keys(policy.tables ?? {});
+  if (tables.length === 0) {
+    return [{ name: 'Tables', status: 'skip', message: 'No tables in the policy', hint: 'Pass --policy with your access policy' }];
+  }
+  if (!serviceKey) {
+    return [{ name: 'Tables', status: 'skip', message: 'No service key given', hint: 'Pass --service-key' }];
+  }
+
+  return Promise.all(tables.map(async (table): Promise<DoctorCheck> => {
+    const name = `Table ${table}`;
+    const ownerColumn = { ...DEFAULT_PROXY_POLICY.defaults, ...policy.defaults, ...policy.tables![table] }.ownerColumn;
+    try {
+      const response = await fetch(
+        `${supabaseUrl}/rest/v1/${encodeURIComponent(table)}?select=${encodeURIComponent(ownerColumn || '*')}&limit=0`,
+        { headers: { apikey: serviceKey, Authorization: `Bearer ${serviceKey}` } }
+      );
+      if (response.ok) {
+        return ownerColumn
+          ? { name, status: 'pass', message: `Owner column ${ownerColumn} exists` }
+          : { name, status: 'pass', message: 'Exists (shared, no owner column)' };
+      }
+
+      const body = await response.json().catch(() => null);
+      if (body?.code === '42703') {
+        return {
+          name,
+          status: 'fail',
+          message: `Owner column ${ownerColumn} does not exist`,
+          hint: `Add it (\`alter table ${table} add column ${ownerColumn} text\`) or set ownerColumn for ${table} in the policy`
+        };
+      }
+      if (body?.code === '42P01' || body?.code === 'PGRST205' || response.status === 404) {
+        return { name, status: 'fail', message: 'Table does not exist or is not exposed to the API' };
+      }
+      return { name, status: 'fail', message: body?.message || `PostgREST responded ${response.status}` };
+    } catch (error: any) {
+      return { name, status: 'fail', message: error.message };
+    }
+  }));
+}
+
+async function checkBuckets(supabaseUrl: string, serviceKey: string | undefined, buckets: string[]): Promise<DoctorCheck[]> {
+  if (buckets.length === 0) {
+    return [{ name: 'Buckets', status: 'skip', message: 'No buckets given', hint: 'Pass --bucket for each bucket the app uses' }];
+  }
+  if (!serviceKey) {
+    return [{ name: 'Buckets', status: 'skip', message: 'No service key given', hint: 'Pass --service-key' }];
+  }
+
+  return Promise.all(buckets.map(async (bucket): Promise<DoctorCheck> => {
+    const name = `Bucket ${bucket}`;
+    try {
+      const response = await fetch(`${supabaseUrl}/storage/v1/bucket/${encodeURIComponent(bucket)}`, {
+        headers: { apikey: serviceKey, Authorization: `Bearer ${serviceKey}` }
+      });
+      if (response.ok) {
+        const info = await response.json();
+        return { name, status: 'pass', message: info.public ? 'Exists (public)' : 'Exists (private)' };
+      }
+      return {
+        name,
+        status: 'fail',
+        message: 'Does not exist',
+        hint: 'Create it in the Supabase dashboard, or with storage.createBucket() from a token carrying the storage admin claim'
+      };
+    } catch (error: any) {
+      return { name, status: 'fail', message: error.message };
+    }
+  }));
+}
+
+// Send the preflight a browser would send from the app's origin
+async function checkCors(functionUrl: string, origin?: string): Promise<DoctorCheck> {
+  const name = 'CORS';
+  if (!origin) {
+    return { name, status: 'skip', message: 'No origin given', hint: 'Pass --origin with your app\'s URL' };
+  }
+
+  try {
+    const response = await fetch(functionUrl, {
+      method: 'OPTIONS',
+      headers: {
+        Origin: origin,
+        'Access-Control-Request-Method': 'POST',
+        'Access-Control-Request-Headers': CLIENT_HEADERS.join(', ')
+      }
+    });
+    const allowOrigin = response.headers.get('access-control-allow-origin');
+    const allowHeaders = (response.headers.get('access-control-allow-headers') ?? '').toLowerCase();
+    const missing = CLIENT_HEADERS.filter(header => !allowHeaders.split(/\s*,\s*/).includes(header));
+
+    if (allowOrigin !== '*' && allowOrigin !== origin) {
+      return {
+        name,
+        status: 'fail',
+        message: `Origin ${origin} is not allowed (Access-Control-Allow-Origin: ${allowOrigin ?? 'none'})`,
+        hint: 'Redeploy the proxy with `npx rownd-supabase setup`'
+      };
+    }
+    if (missing.length > 0 && allowHeaders !== '*') {
+      return {
+        name,
+        status: 'fail',
+        message: `Preflight does not allow: ${missing.join(', ')}`,
+        hint: 'Redeploy the proxy with `npx rownd-supabase setup`'
+      };
+    }
+    return { name, status: 'pass', message: `${origin} may call the proxy` };
+  } catch (error: any) {
+    return { name, status: 'fail', message: error.message };
+  }
+}
@@ -1,8 +1,28 @@
-import { SupabaseClient, createClient as createSupabaseClient } from '@supabase/supabase-js';
+import {
+  FunctionsHttpError,
+  SupabaseClient,
+  createClient as createSupabaseClient
+} from '@supabase/supabase-js';
+import {
+  QueryExecutor,
+  QueryRecording,
+  QueryResponse,
+  createRecording,
+  failedQueryResponse,
+  recordQuery
+} from './query';
+import type { DatabaseOperation } from './proxy';
+import { ProxyHealth, createProxyVersionCheck } from './proxy-version';
+import { RealtimeAuthorization, scopeChannel } from './realtime';
+import { ProxyFetcher, wrapStorage } from './storage';
+import { createTokenExchange } from './token-exchange';
+import { ProxyInvoker } from './upload';
 
 export interface RowndSupabaseOptions {
   getAccessToken: (options?: { waitForToken?: boolean }) => Promise<string | null | undefined>;
   autoSetup?: boolean; // Automatically deploy proxy function if needed (default: true)
+  fetch?: typeof fetch; // Custom fetch for Supabase and proxy requests, e.g. the mock client's in tests
+  checkProxyVersion?: boolean; // Check the deployed proxy's protocol before the first call (default: true)
 }
 
 // Re-export everything from Supabase so it's a true drop-in replacement
@@ -12,6 +32,8 @@ export * from '@supabase/supabase-js';
 let proxyDeploymentPromise: Promise<void> | null = null;
 let proxyDeployed = false;
 
+const QUERY_OPERATIONS: DatabaseOperation[] = ['select', 'insert', 'update', 'delete', 'upsert'];
+
 /**
  * Creates a Supabase client with Rownd authentication.
  * Drop-in replacement for @supabase/supabase-js createClient.
@@ -33,7 +55,7 @@ export function createClient(
   supabaseAnonKey: string,
   options: RowndSupabaseOptions
 ): SupabaseClient {
-  const { getAccessToken, autoSetup = true } = options;
+  const { getAccessToken, autoSetup = true, fetch: customFetch, checkProxyVersion = true } = options;
   
   // Create the base Supabase client
   const baseClient = createSupabaseClient(supabaseUrl, supabaseAnonKey, {
@@ -41,7 +63,8 @@ export function createClient(
       autoRefreshToken: false,
       persistSession: false,
       detectSessionInUrl: false,
-    }
+    },
+    global: customFetch ? { fetch: customFetch } : undefined
   });
 
   // Auto-deploy proxy function if needed
@@ -54,6 +77,148 @@ export function createClient(
       });
   }
 
+  // Realtime needs a Supabase JWT, exchanged from the Rownd token by the proxy.
+  // The socket calls accessToken on connect and on every heartbeat, so a new
+  // token from getAccessToken is picked up without reconnecting.
+  const tokenExchange = createTokenExchange({ supabaseUrl, supabaseAnonKey, getAccessToken, fetch: customFetch });
+  let realtimeAuthenticated = false;
+
+  const authenticateRealtime = () => {
+    if (realtimeAuthenticated) return;
+    realtimeAuthenticated = true;
+
+    baseClient.realtime.accessToken = async () =>
+      (await tokenExchange.getSupabaseToken()) ?? supabaseAnonKey;
+    baseClient.realtime.setAuth().catch(err => {
+      console.warn('Failed to authenticate Realtime with Rownd:', err);
+    });
+  };
+
+  // Ask the deployed proxy which protocol it speaks, once, before the first call
+  const versionCheck = createProxyVersionCheck(async (token): Promise<ProxyHealth> => {
+    const { data, error } = await baseClient.functions.invoke('_rownd_universal_proxy', {
+      body: { resource: 'health' },
+      headers: { 'X-Rownd-Token': token }
+    });
+    if (error) {
+      const { message } = await readProxyError(error);
+      throw new Error(message);
+    }
+    return data;
+  });
+  const ensureCompatible = async (token: string) => {
+    if (checkProxyVersion) await versionCheck.ensureCompatible(token);
+  };
+
+  // Invoke the universal proxy as the current Rownd user and unwrap the
+  // { data, error } result it responds with
+  const invokeProxy: ProxyInvoker = async (body, headers) => {
+    if (proxyDeploymentPromise) await proxyDeploymentPromise;
+
+    const token = await getAccessToken({ waitForToken: true });
+    if (!token) {
+      return { data: null, error: new Error('No authentication token') };
+    }
+
+    try {
+      await ensureCompatible(token);
+    } catch (error: any) {
+      return { data: null, error };
+    }
+
+    const { data, error } = await baseClient.functions.invoke('_rownd_universal_proxy', {
+      body,
+      headers: { ...headers, 'X-Rownd-Token': token }
+    });
+
+    if (error) {
+      // Keep the status so callers can tell network and server failures,
+      // which are worth retrying, from rejected requests
+      const { message, status } = await readProxyError(error);
+      return { data: null, error: Object.assign(new Error(message), { status }) };
+    }
+
+    return data;
+  };
+
+  // functions.invoke decodes most binary content types as text, so
+  // downloads read the proxy's streamed response with fetch directly
+  const fetchProxy: ProxyFetcher = async (body, headers) => {
+    if (proxyDeploymentPromise) await proxyDeploymentPromise;
+
+    const token = await getAccessToken({ waitForToken: true });
+    if (!token) {
+      throw new Error('No authentication token');
+    }
+    await ensureCompatible(token);
+
+    return (customFetch ?? fetch)(`${supabaseUrl}/functions/v1/_rownd_universal_proxy`, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+        'apikey': supabaseAnonKey,
+        'Authorization': `Bearer ${supabaseAnonKey}`,
+        'X-Rownd-Token': token
+      },
+      body: JSON.stringify(body)
+    });
+  };
+
+  // Send a recorded query to the proxy, which replays it and relays the
+  // postgrest-js response as-is, including count, status and PGRST116
+  // errors from single()/maybeSingle()
+  const executeQuery = (request: Record<string, unknown>): QueryExecutor =>
+    async ({ query, signal }: QueryRecording): Promise<QueryResponse> => {
+      if (proxyDeploymentPromise) await proxyDeploymentPromise;
+
+      const token = await getAccessToken({ waitForToken: true });
+      if (!token) {
+        return failedQueryResponse('Failed to get authentication token from Rownd', 401, 'Unauthorized');
+      }
+
+      try {
+        await ensureCompatible(token);
+      } catch (error: any) {
+        return failedQueryResponse(error.message);
+      }
+
+      const proxyResult = await baseClient.functions.invoke('_rownd_universal_proxy', {
+        body: { ...request, query },
+        headers: { 'X-Rownd-Token': token },
+        signal
+      });
+
+      if (proxyResult.error) {
+        return proxyFailure(proxyResult.error);
+      }
+
+      return proxyResult.data;
+    };
+
+  // Ask the proxy which ownership rule applies to a table before subscribing
+  const authorizeRealtime = async (table: string): Promise<RealtimeAuthorization> => {
+    if (proxyDeploymentPromise) await proxyDeploymentPromise;
+
+    const token = await getAccessToken({ waitForToken: true });
+    if (!token) {
+      throw new Error('Failed to get authentication token from Rownd');
+    }
+    await ensureCompatible(token);
+
+    const { data, error } = await baseClient.functions.invoke('_rownd_universal_proxy', {
+      body: {
+        resource: 'realtime',
+        operation: 'authorize',
+        table
+      },
+      headers: { 'X-Rownd-Token': token }
+    });
+
+    if (error) throw error;
+    return data;
+  };
+
   // Create a proxy that intercepts all operations
   return new Proxy(baseClient, {
     get(target, prop) {
@@ -61,58 +226,36 @@ export function createClient(
       if (prop === 'from') {
         return (table: string) => {
           const originalQueryBuilder = target.from(table);
-          
-          // Intercept the final execute methods
+
+          // Record the operation and everything chained after it
           return new Proxy(originalQueryBuilder, {
             get(qbTarget, qbProp) {
-              // For methods that execute queries, route through proxy
-              if (['select', 'insert', 'update', 'delete', 'upsert'].includes(String(qbProp))) {
+              if (QUERY_OPERATIONS.includes(qbProp as DatabaseOperation)) {
+                const operation = qbProp as DatabaseOperation;
                 return (...args: any[]) => {
-                  const query = qbTarget[qbProp](...args);
-                  
-                  // Override the execution
-                  const originalThen = query.then.bind(query);
-                  query.then = async (onfulfilled?: any, onrejected?: any) => {
-                    // Wait for proxy deployment if in progress
-                    if (proxyDeploymentPromise) {
-                      await proxyDeploymentPromise;
-                    }
-
-                    // Get token and execute through proxy
-                    const token = await getAccessToken({ waitForToken: true });
-                    if (!token) {
-                      const error = new Error('Failed to get authentication token from Rownd');
-                      return onrejected ? onrejected(error) : Promise.reject(error);
-                    }
-
-                    // Route through universal proxy
-                    const proxyResult = await target.functions.invoke('_rownd_universal_proxy', {
-                      body: {
-                        resource: 'database',
-                        operation: String(qbProp),
-                        table,
-                        query: serializeQuery(query)
-                      },
-                      headers: { 'X-Rownd-Token': token }
-                    });
-
-                    if (proxyResult.error) {
-                      return onrejected ? onrejected(proxyResult.error) : Promise.reject(proxyResult.error);
-                    }
-
-                    return onfulfilled ? onfulfilled(proxyResult.data) : proxyResult.data;
-                  };
-
-                  return query;
+                  const query = (qbTarget[operation] as (...args: any[]) => object)(...args);
+                  return recordQuery(
+                    query,
+                    createRecording(operation, args),
+                    executeQuery({ resource: 'database', operation, table })
+                  );
                 };
               }
-              
+
               return qbTarget[qbProp as keyof typeof qbTarget];
             }
           });
         };
       }
 
+      // Handle realtime channels
+      if (prop === 'channel') {
+        return (name: string, opts?: Parameters<SupabaseClient['channel']>[1]) => {
+          authenticateRealtime();
+          return scopeChannel(target.channel(name, opts), authorizeRealtime);
+        };
+      }
+
       // Handle Edge Functions
       if (prop === 'functions') {
         return {
@@ -138,124 +281,18 @@ export function createClient(
 
       // Handle storage operations
       if (prop === 'storage') {
-        return {
-          from: (bucket: string) => ({
-            upload: async (path: string, file: File, options?: any) => {
-              if (proxyDeploymentPromise) await proxyDeploymentPromise;
-              
-              const token = await getAccessToken({ waitForToken: true });
-              if (!token) {
-                return { data: null, error: new Error('No authentication token') };
-              }
-
-              // Convert file to base64 for proxy transport
-              const base64 = await fileToBase64(file);
-              
-              return target.functions.invoke('_rownd_universal_proxy', {
-                body: {
-                  resource: 'storage',
-                  operation: 'upload',
-                  bucket,
-                  path,
-                  file: { data: base64, type: file.type },
-                  options
-                },
-                headers: { 'X-Rownd-Token': token }
-              });
-            },
-
-            download: async (path: string) => {
-              if (proxyDeploymentPromise) await proxyDeploymentPromise;
-              
-              const token = await getAccessToken({ waitForToken: true });
-              if (!token) {
-                return { data: null, error: new Error('No authentication token') };
-              }
-
-              const result = await target.functions.invoke('_rownd_universal_proxy', {
-                body: {
-                  resource: 'storage',
-                  operation: 'download',
-                  bucket,
-                  path
-                },
-                headers: { 'X-Rownd-Token': token }
-              });
-
-              if (result.error) return result;
-
-              // Convert base64 back to blob
-              const blob = base64ToBlob(result.data.base64, result.data.type);
-              return { data: blob, error: null };
-            },
-
-            remove: async (paths: string[]) => {
-              if (proxyDeploymentPromise) await proxyDeploymentPromise;
-              
-              const token = await getAccessToken({ waitForToken: true });
-              if (!token) {
-                return { data: null, error: new Error('No authentication token') };
-              }
-
-              return target.functions.invoke('_rownd_universal_proxy', {
-                body: {
-                  resource: 'storage',
-                  operation: 'remove',
-                  bucket,
-                  paths
-                },
-                headers: { 'X-Rownd-Token': token }
-              });
-            },
-
-            list: async (path?: string, options?: any) => {
-              if (proxyDeploymentPromise) await proxyDeploymentPromise;
-              
-              const token = await getAccessToken({ waitForToken: true });
-              if (!token) {
-                return { data: null, error: new Error('No authentication token') };
-              }
-
-              return target.functions.invoke('_rownd_universal_proxy', {
-                body: {
-                  resource: 'storage',
-                  operation: 'list',
-                  bucket,
-                  path,
-                  options
-                },
-                headers: { 'X-Rownd-Token': token }
-              });
-            },
-
-            getPublicUrl: (path: string) => {
-              // This doesn't need auth
-              return target.storage.from(bucket).getPublicUrl(path);
-            }
-          })
-        };
+        return wrapStorage(target.storage, invokeProxy, fetchProxy);
       }
 
-      // Handle RPC
+      // Handle RPC; the returned builder can be filtered like a table query
       if (prop === 'rpc') {
-        return async (fn: string, args?: any, options?: any) => {
-          if (proxyDeploymentPromise) await proxyDeploymentPromise;
-          
-          const token = await getAccessToken({ waitForToken: true });
-          if (!token) {
-            throw new Error('Failed to get authentication token from Rownd');
-          }
-
-          return target.functions.invoke('_rownd_universal_proxy', {
-            body: {
-              resource: 'rpc',
-              operation: 'call',
-              functionName: fn,
-              args,
-              options
-            },
-            headers: { 'X-Rownd-Token': token }
-          });
+        return (fn: string, args?: object, options?: { head?: boolean; get?: boolean; count?: string }) => {
+          const builder = (target.rpc as (...args: any[]) => object)(fn, args, options);
+          return recordQuery(
+            builder,
+            createRecording('rpc', [fn, args, options]),
+            executeQuery({ resource: 'rpc', operation: 'call', functionName: fn })
+          );
         };
       }
 
@@ -265,40 +302,21 @@ export function createClient(
   }) as SupabaseClient;
 }
 
-// Helper to serialize query builder state
-function serializeQuery(query: any): any {
-  // This would extract filters, ordering, limits, etc. from the query builder
-  // For now, simplified
-  return {
-    filters: query._filters || {},
-    select: query._select || '*',
-    order: query._order || [],
-    limit: query._limit
-  };
-}
-
-// Helper to convert file to base64
-async function fileToBase64(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const result = reader.result as string;
-      resolve(result.split(',')[1]); // Remove data URL prefix
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+// Helper to turn a failed proxy invocation into a postgrest-js style response
+async function proxyFailure(error: Error): Promise<QueryResponse> {
+  const { message, status, statusText } = await readProxyError(error);
+  return failedQueryResponse(message, status, statusText);
 }
 
-// Helper to convert base64 to blob
-function base64ToBlob(base64: string, type: string): Blob {
-  const byteCharacters = atob(base64);
-  const byteNumbers = new Array(byteCharacters.length);
-  for (let i = 0; i < byteCharacters.length; i++) {
-    byteNumbers[i] = byteCharacters.charCodeAt(i);
+// Helper to read the error message out of a non-2xx proxy response
+async function readProxyError(error: Error): Promise<{ message: string; status: number; statusText: string }> {
+  if (error instanceof FunctionsHttpError) {
+    const response: Response = error.context;
+    const body = await response.json().catch(() => null);
+    return { message: body?.error || error.message, status: response.status, statusText: response.statusText };
   }
-  const byteArray = new Uint8Array(byteNumbers);
-  return new Blob([byteArray], { type });
+
+  return { message: error.message, status: 0, statusText: '' };
 }
 
 // Auto-deploy the universal proxy function
@@ -307,15 +325,21 @@ async function deployProxyFunction(
   supabaseUrl: string,
   supabaseAnonKey: string
 ): Promise<void> {
-  // Check if proxy already exists
+  // Check if proxy already exists; the health route needs no Rownd token
   try {
-    const { data, error } = await client.functions.invoke('_rownd_universal_proxy', {
-      body: { resource: 'health' }
+    const { data, error } = await client.functions.invoke('_rownd_universal_proxy/health', {
+      method: 'GET'
     });
     
     if (!error && data?.status === 'ok') {
       return; // Already deployed
     }
+    // Deployed, but can't reach Rownd's keys or the database
+    if (error instanceof FunctionsHttpError && error.context.status === 503) {
+      const body = await error.context.json().catch(() => null);
+      console.warn('Rownd proxy is deployed but not ready:', body?.checks);
+      return;
+    }
   } catch (e) {
     // Function doesn't exist, need to deploy
   }
@@ -338,7 +362,28 @@ async function deployProxyFunction(
 }
 
 // Re-export proxy function utilities for AI platforms
-export { PROXY_FUNCTION_CODE, getProxyFunctionCode, writeProxyFunction } from './proxy'
+export {
+  PROXY_FUNCTION_CODE,
+  DEFAULT_PROXY_POLICY,
+  PROXY_PROTOCOL_VERSION,
+  getProxyBuildInfo,
+  getProxyFunctionCode,
+  writeProxyFunction
+} from './proxy'
+export type {
+  DatabaseOperation,
+  FunctionPolicy,
+  FunctionRole,
+  GuardPolicy,
+  ProxyBuildInfo,
+  ProxyPolicy,
+  StoragePolicy,
+  TablePolicy,
+  TokenPolicy
+} from './proxy'
+export type { ProxyHealth } from './proxy-version'
+export type { DownloadOptions, UploadBody } from './storage'
+export type { ChunkedUploadOptions, UploadProgress } from './upload'
 
 // Export AI platform utilities
 export { default as aiPlatform } from './ai-platforms' 
\ No newline at end of file
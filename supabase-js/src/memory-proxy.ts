@@ -0,0 +1,867 @@
+/**
+ * In-Memory Universal Proxy
+ *
+ * Runs the proxy function getProxyFunctionCode() generates, unchanged,
+ * against tables, storage buckets and Postgres functions held in memory, so
+ * tests exercise the same ownership rules, allowlists and guards as the
+ * deployed proxy rather than a copy of them. Only Supabase is emulated:
+ * PostgREST filters and modifiers, the Storage API and function calls, seen
+ * with the service role.
+ *
+ * Tokens from createMockToken() are signed with a key pair generated once per
+ * process, which the proxy trusts in place of Rownd's JWKS. Loading the proxy
+ * needs Node.js 22.13 or later, or the typescript package (see proxy-loader).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { KeyObject, generateKeyPairSync, sign } from 'crypto';
+import * as jose from 'jose';
+import type { ProxyPolicy } from './proxy';
+import { DEFAULT_PROXY_POLICY } from './proxy';
+import { ProxyHandler, loadProxy } from './proxy-loader';
+import type { QueryCall, QueryOperation, SerializedQuery } from './query';
+
+export type Row = Record<string, any>;
+
+export interface RpcContext {
+  userId: string;
+  claims: Record<string, unknown>; // The caller's token payload
+}
+
+// Stands in for a Postgres function; arrays can be filtered like table rows
+export type RpcStub = (args: Record<string, unknown>, context: RpcContext) => unknown;
+
+export interface MemoryProxyOptions {
+  policy?: ProxyPolicy;
+  tables?: Record<string, Row[]>; // Seed rows by table name
+  buckets?: Record<string, Record<string, Blob | string>>; // Seed objects by bucket and full path, e.g. 'user_1/avatar.png'
+  functions?: Record<string, RpcStub>; // Listed in policy.functions to be callable, as with the real proxy
+  supabaseUrl?: string; // Base of signed URLs
+}
+
+export interface StoredObject {
+  data: Uint8Array;
+  contentType: string;
+  cacheControl: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryBucket {
+  id: string;
+  public: boolean;
+  objects: Map<string, StoredObject>;
+}
+
+export interface MemoryProxy {
+  tables: Record<string, Row[]>; // Live rows, for assertions and direct setup
+  buckets: Record<string, MemoryBucket>;
+  handle(request: Request): Promise<Response>;
+}
+
+type BackendQuery = Pick<SerializedQuery, 'operation' | 'chain'>;
+
+const ROWND_CLAIM_PREFIX = 'https://auth.rownd.io/';
+const MOCK_KEY_ID = 'rownd-mock';
+
+// Secrets the proxy reads; nothing checks them, but token exchange signs with the JWT secret
+const MOCK_ENV = {
+  SUPABASE_SERVICE_ROLE_KEY: 'mock-service-role-key',
+  SUPABASE_ANON_KEY: 'mock-anon-key',
+  ROWND_SUPABASE_JWT_SECRET: 'mock-jwt-secret-for-rownd-supabase-testing',
+};
+
+// Builder methods the proxy replays onto PostgREST queries
+const FILTER_METHODS = new Set([
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+  'like', 'likeAllOf', 'likeAnyOf', 'ilike', 'ilikeAllOf', 'ilikeAnyOf',
+  'regexMatch', 'regexIMatch', 'is', 'isDistinct', 'in', 'notIn',
+  'contains', 'containedBy', 'rangeGt', 'rangeGte', 'rangeLt', 'rangeLte',
+  'rangeAdjacent', 'overlaps', 'textSearch', 'match', 'not', 'or', 'filter',
+]);
+const MODIFIER_METHODS = new Set([
+  'select', 'order', 'limit', 'range',
+  'single', 'maybeSingle', 'csv', 'geojson', 'explain',
+]);
+
+// A feature of Supabase the in-memory backend doesn't emulate; the proxy
+// relays the status to the client
+class UnsupportedError extends Error {
+  status = 501;
+}
+
+// A Storage API error, resolved as `{ data: null, error }` like storage-js does
+class StorageFailure extends Error {
+  constructor(message: string, readonly statusCode = '404', readonly error = 'not_found') {
+    super(message);
+  }
+}
+
+let mockKeys: { privateKey: KeyObject; jwks: string } | null = null;
+
+// One key pair per process, so every in-memory proxy accepts every mock token
+function getMockKeys() {
+  if (!mockKeys) {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const jwk = { ...publicKey.export({ format: 'jwk' }), kid: MOCK_KEY_ID, alg: 'ES256', use: 'sig' };
+    mockKeys = { privateKey, jwks: JSON.stringify({ keys: [jwk] }) };
+  }
+  return mockKeys;
+}
+
+/**
+ * Sign a Rownd-shaped token the in-memory proxy accepts for `userId`
+ */
+export function createMockToken(
+  userId: string,
+  claims: Record<string, unknown> = {},
+  expiresIn = 3600
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    iss: 'https://api.rownd.io',
+    aud: 'https://api.rownd.io',
+    sub: userId,
+    iat: now,
+    exp: now + expiresIn,
+    [`${ROWND_CLAIM_PREFIX}app_user_id`]: userId,
+    [`${ROWND_CLAIM_PREFIX}is_verified_user`]: true,
+    ...claims,
+  };
+  const signingInput = [{ alg: 'ES256', typ: 'JWT', kid: MOCK_KEY_ID }, payload]
+    .map(part => Buffer.from(JSON.stringify(part)).toString('base64url'))
+    .join('.');
+  const signature = sign('sha256', Buffer.from(signingInput), {
+    key: getMockKeys().privateKey,
+    dsaEncoding: 'ieee-p1363',
+  });
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+// Read a token's claims without verifying it
+export function decodeMockToken(token: string): Record<string, any> {
+  return jose.decodeJwt(token);
+}
+
+export function createMemoryProxy(options: MemoryProxyOptions = {}): MemoryProxy {
+  const supabaseUrl = (options.supabaseUrl ?? 'http://localhost:54321').replace(/\/+$/, '');
+  const functions = options.functions ?? {};
+  // Caller of the request being handled, as verified by the proxy, for function stubs
+  const caller = new AsyncLocalStorage<{ context?: RpcContext }>();
+  let handler: Promise<ProxyHandler> | null = null;
+
+  const tables: Record<string, Row[]> = {};
+  for (const [table, rows] of Object.entries(options.tables ?? {})) {
+    tables[table] = rows.map(row => structuredClone(row));
+  }
+
+  const buckets: Record<string, MemoryBucket> = {};
+  const seeded = Promise.all(
+    Object.entries(options.buckets ?? {}).map(async ([bucket, objects]) => {
+      buckets[bucket] = { id: bucket, public: false, objects: new Map() };
+      for (const [path, contents] of Object.entries(objects)) {
+        const blob = typeof contents === 'string' ? new Blob([contents], { type: 'text/plain' }) : contents;
+        buckets[bucket].objects.set(path, storedObject(new Uint8Array(await blob.arrayBuffer()), blob.type));
+      }
+    })
+  );
+
+  const getBucket = (bucket: string): MemoryBucket => {
+    if (!buckets[bucket]) {
+      throw new StorageFailure('Bucket not found');
+    }
+    return buckets[bucket];
+  };
+
+  const signedUrl = (bucket: string, path: string, route = 'sign') =>
+    `${supabaseUrl}/storage/v1/object/${route}/${bucket}/${path}?token=mock-${crypto.randomUUID()}`;
+
+  // PostgREST, as postgrest-js resolves it, for one table
+  const runQuery = (table: string, operation: QueryOperation, args: unknown[], chain: QueryCall[]) => {
+    const rows = (tables[table] ??= []);
+    const query = { operation, chain };
+    const matched = () => rows.filter(row => matchesChain(row, chain));
+
+    switch (operation) {
+      case 'select': {
+        const [columns, selectOptions] = args as [string?, Row?];
+        return respond(matched(), query, { columns, ...selectOptions }, 200, 'OK');
+      }
+
+      case 'insert': {
+        const [values, insertOptions] = args as [Row | Row[], Row?];
+        const inserted: Row[] = [];
+        for (const row of toArray(values)) {
+          const created = withId([...rows, ...inserted], structuredClone(row));
+          if ([...rows, ...inserted].some(existing => same(existing.id, created.id))) {
+            return conflict(table);
+          }
+          inserted.push(created);
+        }
+        rows.push(...inserted);
+        return respond(inserted, query, { ...insertOptions }, 201, 'Created');
+      }
+
+      case 'update': {
+        const [values, updateOptions] = args as [Row, Row?];
+        const updated = matched();
+        updated.forEach(row => Object.assign(row, structuredClone(values)));
+        return respond(updated, query, { ...updateOptions }, 200, 'OK');
+      }
+
+      case 'delete': {
+        const [deleteOptions] = args as [Row?];
+        const deleted = matched();
+        tables[table] = rows.filter(row => !deleted.includes(row));
+        return respond(deleted, query, { ...deleteOptions }, 200, 'OK');
+      }
+
+      case 'upsert': {
+        const [values, upsertOptions = {}] = args as [Row | Row[], Row?];
+        const conflictColumns = String(upsertOptions.onConflict ?? 'id').split(',').map(column => column.trim());
+        const written: Row[] = [];
+
+        for (const row of toArray(values)) {
+          const existing = rows.find(candidate =>
+            conflictColumns.every(column => row[column] !== undefined && same(candidate[column], row[column]))
+          );
+          if (existing) {
+            if (!upsertOptions.ignoreDuplicates) {
+              written.push(Object.assign(existing, structuredClone(row)));
+            }
+          } else {
+            const inserted = withId(rows, structuredClone(row));
+            rows.push(inserted);
+            written.push(inserted);
+          }
+        }
+        return respond(written, query, upsertOptions, 201, 'Created');
+      }
+
+      default:
+        throw new UnsupportedError(`Database operation ${operation} is not supported by the mock client`);
+    }
+  };
+
+  const callFunction = async (functionName: string, args: Row, rpcOptions: Row, chain: QueryCall[]) => {
+    const stub = functions[functionName];
+    if (!stub) {
+      return {
+        ...failure(`Could not find the function public.${functionName} in the schema cache`, 'PGRST202'),
+        status: 404,
+        statusText: 'Not Found',
+      };
+    }
+
+    const result = await stub(args, caller.getStore()!.context!);
+    if (!Array.isArray(result)) {
+      if (chain.length > 0) {
+        return {
+          ...failure(`Function ${functionName} did not return rows to filter`, 'PGRST100'),
+          status: 400,
+          statusText: 'Bad Request',
+        };
+      }
+      return { success: true, error: null, data: rpcOptions.head ? null : result ?? null, count: null, status: 200, statusText: 'OK' };
+    }
+
+    const rows = result.filter(row => matchesChain(row, chain));
+    return respond(rows, { operation: 'rpc', chain }, rpcOptions, 200, 'OK');
+  };
+
+  // The Storage API, as storage-js resolves it, for one bucket
+  const storageFrom = (bucketId: string) => {
+    const objects = () => getBucket(bucketId).objects;
+    const find = (path: string) => {
+      const stored = objects().get(path);
+      if (!stored) {
+        throw new StorageFailure('Object not found');
+      }
+      return stored;
+    };
+    const assertWritable = (path: string, upsert?: boolean) => {
+      if (objects().has(path) && !upsert) {
+        throw new StorageFailure('The resource already exists', '409', 'Duplicate');
+      }
+    };
+    const transfer = (fromPath: string, toPath: string, transferOptions?: Row) => {
+      const stored = find(fromPath);
+      const destination = transferOptions?.destinationBucket ? getBucket(transferOptions.destinationBucket).objects : objects();
+      destination.set(toPath, { ...stored, updatedAt: new Date().toISOString() });
+    };
+
+    return {
+      upload: (path: string, body: unknown, uploadOptions: Row = {}) => storageResult(async () => {
+        assertWritable(path, uploadOptions.upsert);
+        const data = new Uint8Array(await new Response(body as BodyInit).arrayBuffer());
+        objects().set(path, storedObject(data, uploadOptions.contentType, uploadOptions.cacheControl));
+        return { id: path, path, fullPath: `${bucketId}/${path}` };
+      }),
+
+      download: (path: string) => storageResult(() => {
+        const stored = find(path);
+        return new Blob([stored.data.slice()], { type: stored.contentType });
+      }),
+
+      list: (prefix = '', listOptions?: Row) => storageResult(() => listFolder(objects(), prefix, listOptions)),
+
+      remove: (paths: string[]) => storageResult(() =>
+        paths.filter(path => objects().delete(path)).map(name => ({ name, bucket_id: bucketId }))
+      ),
+
+      createSignedUrl: (path: string) => storageResult(() => {
+        find(path);
+        return { signedUrl: signedUrl(bucketId, path) };
+      }),
+
+      createSignedUrls: (paths: string[]) => storageResult(() =>
+        paths.map(path => {
+          if (!objects().has(path)) {
+            return { error: 'Either the object does not exist or you do not have access to it', path, signedURL: null, signedUrl: null };
+          }
+          const url = signedUrl(bucketId, path);
+          return { error: null, path, signedURL: url, signedUrl: url };
+        })
+      ),
+
+      createSignedUploadUrl: (path: string, uploadOptions?: Row) => storageResult(() => {
+        assertWritable(path, uploadOptions?.upsert);
+        const url = signedUrl(bucketId, path, 'upload/sign');
+        return { signedUrl: url, path, token: new URL(url).searchParams.get('token') };
+      }),
+
+      move: (fromPath: string, toPath: string, moveOptions?: Row) => storageResult(() => {
+        transfer(fromPath, toPath, moveOptions);
+        objects().delete(fromPath);
+        return { message: 'Successfully moved' };
+      }),
+
+      copy: (fromPath: string, toPath: string, copyOptions?: Row) => storageResult(() => {
+        transfer(fromPath, toPath, copyOptions);
+        return { path: toPath };
+      }),
+
+      info: (path: string) => storageResult(() => {
+        const stored = find(path);
+        return {
+          id: path,
+          name: path,
+          bucketId,
+          size: stored.data.byteLength,
+          contentType: stored.contentType,
+          cacheControl: stored.cacheControl,
+          createdAt: stored.createdAt,
+          lastModified: stored.updatedAt,
+        };
+      }),
+
+      exists: (path: string) => storageResult(() => objects().has(path)),
+
+      listV2: () => Promise.reject(new UnsupportedError('Storage operation listV2 is not supported by the mock client')),
+      purgeCache: () => Promise.reject(new UnsupportedError('Storage operation purgeCache is not supported by the mock client')),
+    };
+  };
+
+  const storage = {
+    from: storageFrom,
+
+    listBuckets: () => storageResult(() => Object.values(buckets).map(bucketInfo)),
+
+    getBucket: (bucketId: string) => storageResult(() => bucketInfo(getBucket(bucketId))),
+
+    createBucket: (bucketId: string, bucketOptions?: Row) => storageResult(() => {
+      if (buckets[bucketId]) {
+        throw new StorageFailure('The resource already exists', '409', 'Duplicate');
+      }
+      buckets[bucketId] = { id: bucketId, public: Boolean(bucketOptions?.public), objects: new Map() };
+      return { name: bucketId };
+    }),
+
+    updateBucket: (bucketId: string, bucketOptions?: Row) => storageResult(() => {
+      getBucket(bucketId).public = Boolean(bucketOptions?.public);
+      return { message: 'Successfully updated' };
+    }),
+
+    emptyBucket: (bucketId: string) => storageResult(() => {
+      getBucket(bucketId).objects.clear();
+      return { message: 'Successfully emptied' };
+    }),
+
+    deleteBucket: (bucketId: string) => storageResult(() => {
+      if (getBucket(bucketId).objects.size > 0) {
+        throw new StorageFailure('The bucket you tried to delete is not empty', '409', 'InvalidRequest');
+      }
+      delete buckets[bucketId];
+      return { message: 'Successfully deleted' };
+    }),
+
+    purgeBucketCache: () => Promise.reject(new UnsupportedError('Storage operation purgeBucketCache is not supported by the mock client')),
+  };
+
+  // Stands in for createClient() from @supabase/supabase-js, whatever key or
+  // token the proxy creates it with
+  const createBackendClient = () => ({
+    from: (table: string) => {
+      const operation = (name: QueryOperation) => (...args: unknown[]) =>
+        createQuery(chain => runQuery(table, name, args, chain));
+      return {
+        select: operation('select'),
+        insert: operation('insert'),
+        update: operation('update'),
+        delete: operation('delete'),
+        upsert: operation('upsert'),
+      };
+    },
+    rpc: (functionName: string, args: Row = {}, rpcOptions: Row = {}) =>
+      createQuery(chain => callFunction(functionName, args, rpcOptions, chain)),
+    storage,
+  });
+
+  // Requests the proxy sends with fetch() instead of a client: streamed
+  // downloads and the health check's PostgREST probe
+  const backendFetch = async (input: string | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(String(input));
+    if (url.pathname === '/rest/v1/') {
+      return json({});
+    }
+
+    const download = /^\/storage\/v1\/object\/authenticated\/([^/]+)\/(.+)$/.exec(url.pathname);
+    if (!download) {
+      return json({ message: `${url.pathname} is not supported by the mock client` }, 501);
+    }
+    const path = download[2].split('/').map(decodeURIComponent).join('/');
+    const stored = buckets[decodeURIComponent(download[1])]?.objects.get(path);
+    if (!stored) {
+      return json({ statusCode: '404', error: 'not_found', message: 'Object not found' }, 404);
+    }
+
+    const range = /^bytes=(\d+)-(\d*)$/.exec(new Headers(init?.headers).get('range') ?? '');
+    if (!range) {
+      return new Response(stored.data.slice(), {
+        headers: { 'Content-Type': stored.contentType, 'Content-Length': String(stored.data.byteLength) },
+      });
+    }
+    const start = Number(range[1]);
+    const end = Math.min(range[2] ? Number(range[2]) : stored.data.byteLength - 1, stored.data.byteLength - 1);
+    return new Response(stored.data.slice(start, end + 1), {
+      status: 206,
+      headers: {
+        'Content-Type': stored.contentType,
+        'Content-Range': `bytes ${start}-${end}/${stored.data.byteLength}`,
+      },
+    });
+  };
+
+  const startProxy = () => {
+    const env: Record<string, string> = { ...MOCK_ENV, SUPABASE_URL: supabaseUrl, ROWND_JWKS: getMockKeys().jwks };
+    return loadProxy(options.policy ?? DEFAULT_PROXY_POLICY, {
+      createClient: createBackendClient,
+      // Remember who the proxy verified, for function stubs
+      jose: {
+        ...jose,
+        jwtVerify: async (...args: Parameters<typeof jose.jwtVerify>) => {
+          const result = await jose.jwtVerify(...args);
+          caller.getStore()!.context = { userId: String(result.payload.sub), claims: result.payload };
+          return result;
+        },
+      },
+      Deno: { env: { get: (name: string) => env[name] } },
+      fetch: backendFetch,
+      // Failures reach the test as responses; keep the proxy's error log out of its output
+      console: { ...console, error: () => {} },
+    });
+  };
+
+  return {
+    tables,
+    buckets,
+
+    async handle(request) {
+      await seeded;
+      handler ??= startProxy();
+      const proxy = await handler;
+      return caller.run({}, () => proxy(request));
+    },
+  };
+}
+
+// A thenable standing in for a postgrest-js builder: it records the filters
+// and modifiers replayed onto it and runs the query when awaited
+function createQuery(execute: (chain: QueryCall[]) => unknown): Row {
+  const chain: QueryCall[] = [];
+  const query: Row = {
+    then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+      Promise.resolve().then(() => execute(chain)).then(resolve, reject),
+  };
+  for (const method of [...FILTER_METHODS, ...MODIFIER_METHODS]) {
+    query[method] = (...args: unknown[]) => {
+      chain.push({ method, args });
+      return query;
+    };
+  }
+  return query;
+}
+
+async function storageResult(run: () => unknown) {
+  try {
+    return { data: await run(), error: null };
+  } catch (error) {
+    if (!(error instanceof StorageFailure)) throw error;
+    return { data: null, error: { statusCode: error.statusCode, error: error.error, message: error.message } };
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function storedObject(data: Uint8Array, contentType?: string, cacheControl?: string): StoredObject {
+  const now = new Date().toISOString();
+  return {
+    data,
+    contentType: contentType || 'application/octet-stream',
+    cacheControl: cacheControl || '3600',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function bucketInfo(bucket: MemoryBucket) {
+  return { id: bucket.id, name: bucket.id, public: bucket.public };
+}
+
+// Files and folders directly inside `prefix`, like the Storage list endpoint
+function listFolder(objects: Map<string, StoredObject>, prefix: string, options: Row = {}) {
+  const { limit = 100, offset = 0, search = '', sortBy = { column: 'name', order: 'asc' } } = options;
+  const folder = prefix.endsWith('/') ? prefix : `${prefix}/`;
+  const entries = new Map<string, Row>();
+
+  for (const [path, stored] of objects) {
+    if (!path.startsWith(folder)) continue;
+    const [name, ...rest] = path.slice(folder.length).split('/');
+    if (!name.includes(search)) continue;
+    entries.set(name, rest.length > 0
+      ? { name, id: null, updated_at: null, created_at: null, metadata: null }
+      : {
+          name,
+          id: path,
+          updated_at: stored.updatedAt,
+          created_at: stored.createdAt,
+          metadata: { size: stored.data.byteLength, mimetype: stored.contentType, cacheControl: stored.cacheControl },
+        });
+  }
+
+  const direction = sortBy.order === 'desc' ? -1 : 1;
+  return [...entries.values()]
+    .sort((a, b) => compare(a[sortBy.column], b[sortBy.column]) * direction)
+    .slice(offset, offset + limit);
+}
+
+// Give new rows an `id` when they don't bring one, following the table's existing IDs
+function withId(rows: Row[], row: Row): Row {
+  if (row.id !== undefined) return row;
+  if (rows.some(existing => typeof existing.id === 'string')) {
+    return { id: crypto.randomUUID(), ...row };
+  }
+  const ids = rows.map(existing => Number(existing.id)).filter(Number.isFinite);
+  return { id: Math.max(0, ...ids) + 1, ...row };
+}
+
+function failure(message: string, code: string, details: string | null = null) {
+  return { success: false, data: null, count: null, error: { message, code, details, hint: null } };
+}
+
+function conflict(table: string) {
+  return {
+    ...failure(`duplicate key value violates unique constraint "${table}_pkey"`, '23505'),
+    status: 409,
+    statusText: 'Conflict',
+  };
+}
+
+// Shape matched rows into the response postgrest-js resolves with, applying
+// the recorded select, order, limit, range and single modifiers
+function respond(
+  matched: Row[],
+  query: BackendQuery,
+  selection: { columns?: string; count?: string; head?: boolean },
+  status: number,
+  statusText: string
+) {
+  const isRead = query.operation === 'select' || query.operation === 'rpc';
+  const selectCall = query.chain.find(({ method }) => method === 'select');
+  const returning = isRead || Boolean(selectCall);
+  const columns = (selectCall?.args[0] as string) ?? selection.columns;
+  if (columns?.includes('(')) {
+    throw new UnsupportedError('Embedded resources are not supported by the mock client');
+  }
+
+  let rows = applyOrder(matched, query.chain);
+  const count = selection.count ? rows.length : null;
+  rows = applyPagination(rows, query.chain);
+  const data = rows.map(row => project(row, columns));
+
+  // Mutations without select() return no body; updates and deletes report 204
+  if (!returning) {
+    return status === 201
+      ? { success: true, error: null, data: null, count, status, statusText }
+      : { success: true, error: null, data: null, count, status: 204, statusText: 'No Content' };
+  }
+
+  const single = query.chain.find(({ method }) => method === 'single' || method === 'maybeSingle');
+  if (single) {
+    if (data.length === 1) {
+      return { success: true, error: null, data: data[0], count, status, statusText };
+    }
+    if (data.length === 0 && single.method === 'maybeSingle') {
+      return { success: true, error: null, data: null, count, status, statusText };
+    }
+    return {
+      ...failure('JSON object requested, multiple (or no) rows returned', 'PGRST116', `The result contains ${data.length} rows`),
+      status: 406,
+      statusText: 'Not Acceptable',
+    };
+  }
+
+  return { success: true, error: null, data: selection.head ? null : data, count, status, statusText };
+}
+
+function applyOrder(rows: Row[], chain: QueryCall[]): Row[] {
+  const orders = chain.filter(({ method }) => method === 'order');
+  if (orders.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { args } of orders) {
+      const [column, options = {}] = args as [string, Row?];
+      unsupportedOption(options);
+      const ascending = options.ascending ?? true;
+      const nullsFirst = options.nullsFirst ?? !ascending;
+      const [left, right] = [a[column], b[column]];
+      if (left == null || right == null) {
+        if (left == null && right == null) continue;
+        return (left == null) === nullsFirst ? -1 : 1;
+      }
+      const result = compare(left, right) * (ascending ? 1 : -1);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+}
+
+function applyPagination(rows: Row[], chain: QueryCall[]): Row[] {
+  let result = rows;
+  for (const { method, args } of chain) {
+    if (method === 'limit') {
+      unsupportedOption(args[1] as Row);
+      result = result.slice(0, args[0] as number);
+    } else if (method === 'range') {
+      unsupportedOption(args[2] as Row);
+      result = result.slice(args[0] as number, (args[1] as number) + 1);
+    } else if (method === 'csv' || method === 'geojson' || method === 'explain') {
+      throw new UnsupportedError(`${method}() is not supported by the mock client`);
+    }
+  }
+  return result;
+}
+
+// Pick the selected columns, honouring aliases (alias:col) and JSON paths (col->>key)
+function project(row: Row, columns?: string): Row {
+  if (!columns || columns.trim() === '*') return structuredClone(row);
+
+  const result: Row = {};
+  for (const entry of columns.split(',').map(column => column.trim()).filter(Boolean)) {
+    if (entry === '*') {
+      Object.assign(result, structuredClone(row));
+      continue;
+    }
+    const [aliasOrPath, maybePath] = entry.split('::')[0].split(':');
+    const path = (maybePath ?? aliasOrPath).trim();
+    const [column, ...keys] = path.split(/->>?/).map(part => part.trim().replace(/^'|'$/g, ''));
+    const value = keys.reduce((current, key) => current?.[key], row[column]);
+    result[maybePath ? aliasOrPath.trim() : keys[keys.length - 1] ?? column] = structuredClone(value);
+  }
+  return result;
+}
+
+function unsupportedOption(options?: Row) {
+  if (options && typeof options === 'object' && (options.referencedTable || options.foreignTable)) {
+    throw new UnsupportedError('Referenced tables are not supported by the mock client');
+  }
+}
+
+function matchesChain(row: Row, chain: QueryCall[]): boolean {
+  return chain.every(({ method, args }) => {
+    if (!FILTER_METHODS.has(method)) return true;
+    unsupportedOption(args[args.length - 1] as Row);
+
+    switch (method) {
+      case 'match':
+        return Object.entries(args[0] as Row).every(([column, value]) => same(row[column], value));
+      case 'not':
+        return !matchesOperator(row[args[0] as string], args[1] as string, parseFilterValue(args[1] as string, args[2]));
+      case 'filter':
+        return matchesFilterString(row, `${args[0]}.${args[1]}.${args[2]}`);
+      case 'or':
+        return splitTopLevel(args[0] as string).some(condition => matchesFilterString(row, condition));
+      default:
+        return matchesOperator(row[args[0] as string], method, args[1]);
+    }
+  });
+}
+
+// Evaluate one PostgREST filter condition, e.g. "status.eq.open",
+// "age.not.gt.30" or "and(a.eq.1,b.is.null)"
+function matchesFilterString(row: Row, condition: string): boolean {
+  const group = /^(not\.)?(and|or)\((.*)\)$/.exec(condition.trim());
+  if (group) {
+    const conditions = splitTopLevel(group[3]);
+    const result = group[2] === 'and'
+      ? conditions.every(inner => matchesFilterString(row, inner))
+      : conditions.some(inner => matchesFilterString(row, inner));
+    return group[1] ? !result : result;
+  }
+
+  const [column, ...rest] = condition.trim().split('.');
+  const negated = rest[0] === 'not';
+  const [operator, ...valueParts] = negated ? rest.slice(1) : rest;
+  const value = parseFilterValue(operator, valueParts.join('.'));
+  const result = matchesOperator(row[column], operator, value);
+  return negated ? !result : result;
+}
+
+// Split "a.eq.1,and(b.eq.2,c.eq.3)" on commas outside parentheses
+function splitTopLevel(filters: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of String(filters)) {
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  parts.push(current);
+  return parts.filter(part => part.trim());
+}
+
+// Turn a raw PostgREST value into what the matching builder method takes
+function parseFilterValue(operator: string, value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const list = /^\((.*)\)$/.exec(value);
+  if (operator === 'in' && list) {
+    return list[1].split(',').map(item => item.trim().replace(/^"|"$/g, ''));
+  }
+  if (operator === 'is') {
+    return value === 'null' ? null : value === 'true' ? true : value === 'false' ? false : value;
+  }
+  if ((operator === 'cs' || operator === 'cd') && /^\{.*\}$/.test(value)) {
+    return value.slice(1, -1).split(',').filter(Boolean);
+  }
+  return value;
+}
+
+function matchesOperator(actual: any, operator: string, expected: any): boolean {
+  switch (operator) {
+    case 'eq':
+      return same(actual, expected);
+    case 'neq':
+      return actual != null && !same(actual, expected);
+    case 'gt':
+      return actual != null && compare(actual, expected) > 0;
+    case 'gte':
+      return actual != null && compare(actual, expected) >= 0;
+    case 'lt':
+      return actual != null && compare(actual, expected) < 0;
+    case 'lte':
+      return actual != null && compare(actual, expected) <= 0;
+    case 'like':
+      return likePattern(expected, false).test(String(actual ?? ''));
+    case 'ilike':
+      return likePattern(expected, true).test(String(actual ?? ''));
+    case 'likeAllOf':
+      return (expected as string[]).every(pattern => likePattern(pattern, false).test(String(actual ?? '')));
+    case 'likeAnyOf':
+      return (expected as string[]).some(pattern => likePattern(pattern, false).test(String(actual ?? '')));
+    case 'ilikeAllOf':
+      return (expected as string[]).every(pattern => likePattern(pattern, true).test(String(actual ?? '')));
+    case 'ilikeAnyOf':
+      return (expected as string[]).some(pattern => likePattern(pattern, true).test(String(actual ?? '')));
+    case 'match':
+    case 'regexMatch':
+      return actual != null && new RegExp(expected).test(String(actual));
+    case 'imatch':
+    case 'regexIMatch':
+      return actual != null && new RegExp(expected, 'i').test(String(actual));
+    case 'is':
+      return expected === null ? actual == null : actual === expected;
+    case 'isDistinct':
+      return !(actual == null && expected == null) && !same(actual, expected);
+    case 'in':
+      return (expected as unknown[]).some(value => same(actual, value));
+    case 'notIn':
+      return actual != null && !(expected as unknown[]).some(value => same(actual, value));
+    case 'cs':
+    case 'contains':
+      return contains(actual, expected);
+    case 'cd':
+    case 'containedBy':
+      return contains(expected, actual);
+    case 'ov':
+    case 'overlaps':
+      return Array.isArray(actual) && toArray(expected).some((value: unknown) => actual.some(item => same(item, value)));
+    case 'fts':
+    case 'plfts':
+    case 'textSearch': {
+      // Every search term must appear; stemming and ranking aren't emulated
+      const words = String(expected).toLowerCase().split(/[\s&|'!()]+/).filter(Boolean);
+      const text = String(actual ?? '').toLowerCase();
+      return words.every(word => text.includes(word));
+    }
+    default:
+      throw new UnsupportedError(`Filter ${operator} is not supported by the mock client`);
+  }
+}
+
+function same(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a == null || b == null) return false;
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return String(a) === String(b);
+}
+
+function compare(a: any, b: any): number {
+  if (a === b) return 0;
+  const [left, right] = [Number(a), Number(b)];
+  if (typeof a !== 'boolean' && a !== '' && b !== '' && Number.isFinite(left) && Number.isFinite(right)) {
+    return left - right;
+  }
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function contains(container: any, contained: any): boolean {
+  if (Array.isArray(container)) {
+    return toArray(contained).every((value: unknown) => container.some(item => same(item, value)));
+  }
+  if (container && typeof container === 'object' && contained && typeof contained === 'object') {
+    return Object.entries(contained).every(([key, value]) =>
+      value && typeof value === 'object' ? contains(container[key], value) : same(container[key], value)
+    );
+  }
+  return false;
+}
+
+function likePattern(pattern: string, caseInsensitive: boolean): RegExp {
+  const source = String(pattern)
+    .split('')
+    .map(char => (char === '%' || char === '*' ? '.*' : char === '_' ? '.' : char.replace(/[.+?^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, caseInsensitive ? 'is' : 's');
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { TableSchema, checkTables, generateMigration } from './migrations';
+
+const bare: TableSchema = { name: 'todos', columns: ['id', 'title'], rlsEnabled: false, policies: [], indexedColumns: ['id'] };
+
+const protectedTable: TableSchema = {
+  name: 'todos',
+  columns: ['id', 'user_id'],
+  rlsEnabled: true,
+  policies: [],
+  indexedColumns: ['id', 'user_id']
+};
+
+describe('generateMigration', () => {
+  it('adds the owner column, its index and RLS', () => {
+    const sql = generateMigration([bare]);
+
+    expect(sql).toContain('alter table "public"."todos" add column if not exists "user_id" text;');
+    expect(sql).toContain('create index if not exists "todos_user_id_idx" on "public"."todos" ("user_id");');
+    expect(sql).toContain('alter table "public"."todos" enable row level security;');
+    expect(sql).not.toContain('create policy');
+  });
+
+  it('quotes reserved words', () => {
+    const sql = generateMigration([{ ...bare, name: 'order' }], { mode: 'jwt', policy: { defaults: { ownerColumn: 'user' } } });
+
+    expect(sql).toContain('alter table "public"."order" add column if not exists "user" text;');
+    expect(sql).toContain('create policy "rownd_order_select" on "public"."order" for select to authenticated using ("user" = auth.jwt()->>\'sub\');');
+  });
+
+  it('leaves out steps that are already done', () => {
+    expect(generateMigration([protectedTable])).toContain('-- Already protected');
+  });
+
+  it('writes owner policies for exchanged JWTs', () => {
+    const sql = generateMigration([protectedTable], { mode: 'jwt' });
+
+    for (const operation of ['select', 'insert', 'update', 'delete']) {
+      expect(sql).toContain(`drop policy if exists "rownd_todos_${operation}" on "public"."todos";`);
+    }
+    expect(sql).toContain('for update to authenticated using ("user_id" = auth.jwt()->>\'sub\') with check ("user_id" = auth.jwt()->>\'sub\');');
+  });
+
+  it('gives Realtime tables a select policy and full replica identity in proxy mode', () => {
+    const sql = generateMigration([protectedTable], { realtime: ['todos'] });
+
+    expect(sql).toContain('create policy "rownd_todos_select" on "public"."todos" for select');
+    expect(sql).not.toContain('rownd_todos_insert');
+    expect(sql).toContain('alter table "public"."todos" replica identity full;');
+  });
+});
+
+describe('checkTables', () => {
+  it('reports disabled RLS and a missing owner column', () => {
+    const issues = checkTables([bare]);
+
+    expect(issues).toContainEqual({ table: 'todos', severity: 'error', message: 'Missing owner column user_id' });
+    expect(issues.some(issue => issue.message.startsWith('Row level security is disabled'))).toBe(true);
+  });
+
+  it('warns about client policies in proxy mode, except the Realtime select policy', () => {
+    const table = {
+      ...protectedTable,
+      policies: [{ name: 'rownd_todos_select', command: 'select', roles: ['authenticated'] }]
+    };
+
+    expect(checkTables([table])).toHaveLength(1);
+    expect(checkTables([table], { realtime: ['todos'] })).toEqual([]);
+  });
+
+  it('reports Realtime tables without a select policy', () => {
+    expect(checkTables([protectedTable], { realtime: ['todos'] })).toEqual([{
+      table: 'todos',
+      severity: 'error',
+      message: 'No select policy for authenticated users, so Realtime delivers no changes'
+    }]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Ownership Migrations
+ *
+ * Generates the SQL that protects tables used with Rownd: the column holding
+ * the Rownd user ID, an index on it, and row level security matching how the
+ * app reaches the table.
+ *
+ * - 'proxy': clients go through the universal proxy, which runs as the
+ *   service role and adds the ownership filters itself. RLS is enabled with no
+ *   policies, so the anon key can't read or write the table directly.
+ * - 'jwt': clients send exchanged Supabase JWTs (`useRowndAuth: true`), and
+ *   RLS policies compare the owner column with the token's `sub`.
+ *
+ * Realtime checks RLS with the subscriber's exchanged JWT in either mode, so
+ * tables listed under `realtime` also get the owner-scoped select policy, and
+ * REPLICA IDENTITY FULL so deletes carry the owner column.
+ *
+ * Rownd user IDs aren't UUIDs, so policies read `auth.jwt()->>'sub'` rather
+ * than `auth.uid()`.
+ */
+
+import { DEFAULT_PROXY_POLICY, ProxyPolicy, TablePolicy } from './proxy';
+
+export type RlsMode = 'proxy' | 'jwt';
+
+export interface TableSchema {
+  name: string;
+  // Filled in by introspection; undefined when only the table name is known
+  columns?: string[];
+  rlsEnabled?: boolean;
+  policies?: { name: string; command: string; roles: string[] }[];
+  indexedColumns?: string[]; // Columns leading an index
+}
+
+export interface MigrationOptions {
+  mode?: RlsMode; // default: 'proxy'
+  policy?: ProxyPolicy; // Owner columns and shared, public and read-only tables
+  schema?: string; // default: 'public'
+  realtime?: string[]; // Tables clients subscribe to with Realtime
+}
+
+export interface TableIssue {
+  table: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Roles clients use when they call PostgREST with the anon key or a user JWT
+const CLIENT_ROLES = ['public', 'anon', 'authenticated'];
+
+// Names of the policies generated here, so reruns replace rather than duplicate them
+const POLICY_PREFIX = 'rownd_';
+
+const COMMANDS: Record<string, string> = { r: 'select', a: 'insert', w: 'update', d: 'delete', '*': 'all' };
+
+/**
+ * Read tables, RLS status, policies and indexes through postgres-meta, which
+ * the local Supabase stack serves at /pg with the service role key
+ */
+export async function introspectSchema(
+  supabaseUrl: string,
+  serviceKey: string,
+  schema = 'public'
+): Promise<TableSchema[]> {
+  const query = `
+    select c.relname as name,
+      c.relrowsecurity as rls_enabled,
+      coalesce((select json_agg(a.attname order by a.attnum) from pg_attribute a
+        where a.attrelid = c.oid and a.attnum > 0 and not a.attisdropped), '[]') as columns,
+      coalesce((select json_agg(json_build_object(
+          'name', p.polname,
+          'command', p.polcmd,
+          'roles', case when 0 = any(p.polroles) then '["public"]'::json
+            else (select json_agg(r.rolname) from pg_roles r where r.oid = any(p.polroles)) end))
+        from pg_policy p where p.polrelid = c.oid), '[]') as policies,
+      coalesce((select json_agg(a.attname) from pg_index i
+        join pg_attribute a on a.attrelid = i.indrelid and a.attnum = i.indkey[0]
+        where i.indrelid = c.oid), '[]') as indexed_columns
+    from pg_class c
+    join pg_namespace n on n.oid = c.relnamespace
+    where n.nspname = '${schema.replace(/'/g, "''")}' and c.relkind in ('r', 'p')
+    order by c.relname`;
+
+  const response = await fetch(`${supabaseUrl.replace(/\/+$/, '')}/pg/query`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: serviceKey,
+      Authorization: `Bearer ${serviceKey}`
+    },
+    body: JSON.stringify({ query })
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`Schema introspection failed with ${response.status}: ${text || response.statusText}`);
+  }
+
+  const rows: any[] = await response.json();
+  return rows.map(row => ({
+    name: row.name,
+    columns: row.columns,
+    rlsEnabled: row.rls_enabled,
+    policies: row.policies.map((policy: any) => ({
+      name: policy.name,
+      command: COMMANDS[policy.command] ?? policy.command,
+      roles: policy.roles ?? []
+    })),
+    indexedColumns: row.indexed_columns
+  }));
+}
+
+/**
+ * Generate a migration for the tables. Steps introspection shows are already
+ * done are left out, and every statement is safe to run twice.
+ */
+export function generateMigration(tables: TableSchema[], options: MigrationOptions = {}): string {
+  const { mode = 'proxy', schema = 'public' } = options;
+  const lines = [
+    `-- Rownd ownership and row level security (${mode === 'proxy' ? 'service-role proxy' : 'exchanged Supabase JWTs'})`,
+    `-- Generated by rownd-supabase migration on ${new Date().toISOString()}`,
+    ''
+  ];
+
+  for (const table of tables) {
+    const policy = resolveTablePolicy(table.name, options.policy);
+    const target = `${quoteIdent(schema)}.${quoteIdent(table.name)}`;
+    const owner = policy.ownerColumn;
+    const statements: string[] = [];
+
+    if (owner && !table.columns?.includes(owner)) {
+      statements.push(`alter table ${target} add column if not exists ${quoteIdent(owner)} text;`);
+    }
+    if (owner && !table.indexedColumns?.includes(owner)) {
+      statements.push(
+        `create index if not exists ${quoteIdent(`${table.name}_${owner}_idx`)} on ${target} (${quoteIdent(owner)});`
+      );
+    }
+    if (!table.rlsEnabled) {
+      statements.push(`alter table ${target} enable row level security;`);
+    }
+    const realtime = options.realtime?.includes(table.name);
+    if (mode === 'jwt' || realtime) {
+      // Proxy mode only needs the select policy Realtime checks
+      const tablePolicies = jwtPolicies(table.name, target, mode === 'jwt' ? policy : { ...policy, readOnly: true });
+      for (const [name, sql] of tablePolicies) {
+        statements.push(`drop policy if exists ${quoteIdent(name)} on ${target};`, sql);
+      }
+    }
+    if (realtime) {
+      statements.push(`alter table ${target} replica identity full;`);
+    }
+
+    lines.push(`-- ${table.name}${owner ? ` (owner column: ${owner})` : ' (shared)'}`);
+    lines.push(...(statements.length > 0 ? statements : ['-- Already protected']), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Report tables the chosen mode leaves unprotected
+ */
+export function checkTables(tables: TableSchema[], options: MigrationOptions = {}): TableIssue[] {
+  const { mode = 'proxy' } = options;
+  const issues: TableIssue[] = [];
+
+  for (const table of tables) {
+    const owner = resolveTablePolicy(table.name, options.policy).ownerColumn;
+    const report = (severity: TableIssue['severity'], message: string) =>
+      issues.push({ table: table.name, severity, message });
+
+    if (owner && table.columns && !table.columns.includes(owner)) {
+      report('error', `Missing owner column ${owner}`);
+    } else if (owner && table.indexedColumns && !table.indexedColumns.includes(owner)) {
+      report('warning', `No index on owner column ${owner}`);
+    }
+    if (!table.rlsEnabled) {
+      report('error', 'Row level security is disabled, so the anon key can read and write every row');
+      continue;
+    }
+
+    const realtime = options.realtime?.includes(table.name);
+    const realtimePolicy = `${POLICY_PREFIX}${table.name}_select`;
+    const clientPolicies = (table.policies ?? []).filter(policy =>
+      policy.roles.some(role => CLIENT_ROLES.includes(role))
+    );
+    const bypassing = clientPolicies.filter(policy => !(realtime && policy.name === realtimePolicy));
+    if (mode === 'proxy' && bypassing.length > 0) {
+      report(
+        'warning',
+        `Policies ${bypassing.map(policy => policy.name).join(', ')} let clients bypass the proxy's ownership rules`
+      );
+    }
+    if (mode === 'jwt' && clientPolicies.length === 0) {
+      report('error', 'No policies for authenticated users, so exchanged tokens can\'t reach any rows');
+    }
+    if (realtime && !clientPolicies.some(policy => ['select', 'all'].includes(policy.command))) {
+      report('error', 'No select policy for authenticated users, so Realtime delivers no changes');
+    }
+  }
+
+  return issues;
+}
+
+function jwtPolicies(tableName: string, target: string, policy: TablePolicy): [string, string][] {
+  const name = (operation: string) => `${POLICY_PREFIX}${tableName}_${operation}`;
+  const create = (operation: string, clauses: string) =>
+    [name(operation), `create policy ${quoteIdent(name(operation))} on ${target} for ${operation} to authenticated ${clauses};`] as [string, string];
+
+  const owned = policy.ownerColumn ? `${quoteIdent(policy.ownerColumn)} = auth.jwt()->>'sub'` : 'true';
+  const operations = policy.readOnly ? ['select'] : policy.operations ?? ['select', 'insert', 'update', 'delete'];
+  const policies: [string, string][] = [];
+
+  if (operations.includes('select')) {
+    policies.push(create('select', `using (${policy.public ? 'true' : owned})`));
+  }
+  if (operations.includes('insert') || operations.includes('upsert')) {
+    policies.push(create('insert', `with check (${owned})`));
+  }
+  if (operations.includes('update') || operations.includes('upsert')) {
+    policies.push(create('update', `using (${owned}) with check (${owned})`));
+  }
+  if (operations.includes('delete')) {
+    policies.push(create('delete', `using (${owned})`));
+  }
+  return policies;
+}
+
+// Merge the table's policy over the defaults, as the proxy does
+function resolveTablePolicy(table: string, policy: ProxyPolicy = DEFAULT_PROXY_POLICY): TablePolicy {
+  return { ...DEFAULT_PROXY_POLICY.defaults, ...policy.defaults, ...policy.tables?.[table] };
+}
+
+// Always quoted, so reserved words like `order` and `user` stay valid table and column names
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,66 @@
+/**
+ * Proxy Loader
+ *
+ * Evaluates the proxy function getProxyFunctionCode() generates inside this
+ * process, for the in-memory proxy behind the mock client and for the dev
+ * server. Its Deno imports are dropped and the caller supplies them, with
+ * Deno's globals, so nothing is written to disk and no packages are resolved
+ * from the user's project. Types are stripped with Node.js 22.13's
+ * module.stripTypeScriptTypes() or, on older versions, the typescript package.
+ */
+
+import type { ProxyPolicy } from './proxy';
+import { getProxyFunctionCode } from './proxy';
+
+export type ProxyHandler = (request: Request) => Promise<Response>;
+
+// Proxy code with its types stripped, by generated source, so each proxy
+// doesn't strip it again
+const strippedProxies = new Map<string, Promise<string>>();
+
+/**
+ * Evaluate the generated proxy with `globals` in scope, which must supply its
+ * imports (createClient and jose) and Deno, and return the handler it passes
+ * to serve()
+ */
+export async function loadProxy(policy: ProxyPolicy, globals: Record<string, unknown>): Promise<ProxyHandler> {
+  const source = getProxyFunctionCode(policy);
+  if (!strippedProxies.has(source)) {
+    strippedProxies.set(source, stripTypes(source));
+  }
+  const code = (await strippedProxies.get(source)!).replace(/^import .*$/gm, '');
+
+  let handler: ProxyHandler | null = null;
+  const serve = (serveHandler: ProxyHandler) => {
+    handler = serveHandler;
+  };
+  new Function('serve', ...Object.keys(globals), `'use strict';\n${code}`)(serve, ...Object.values(globals));
+
+  if (!handler) {
+    throw new Error('The proxy function did not start a server');
+  }
+  return handler;
+}
+
+async function stripTypes(code: string): Promise<string> {
+  const { stripTypeScriptTypes } = (await import('module')) as any;
+  if (stripTypeScriptTypes) {
+    return stripTypeScriptTypes(code);
+  }
+
+  // An optional peer dependency, resolved from the project so it stays out
+  // of the bundle
+  const typescript = 'typescript';
+  let ts: any;
+  try {
+    ({ default: ts } = await import(typescript));
+  } catch {
+    throw new Error(
+      `Loading the Rownd proxy in memory needs Node.js 22.13 or later, or the typescript package (running ${process.version}). ` +
+      'Upgrade Node.js or run `npm install --save-dev typescript`.'
+    );
+  }
+  return ts.transpileModule(code, {
+    compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+  }).outputText;
+}
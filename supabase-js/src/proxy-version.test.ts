@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { PROXY_PROTOCOL_VERSION } from './proxy';
+import { ProxyHealth, createProxyVersionCheck } from './proxy-version';
+import { QUERY_WIRE_VERSION } from './query';
+
+const current: ProxyHealth = { status: 'ok', protocol: PROXY_PROTOCOL_VERSION, wireVersions: [QUERY_WIRE_VERSION] };
+
+describe('createProxyVersionCheck', () => {
+  it('asks the proxy once and shares the answer', async () => {
+    let calls = 0;
+    const check = createProxyVersionCheck(async () => {
+      calls++;
+      return current;
+    });
+
+    await Promise.all([check.ensureCompatible('token'), check.ensureCompatible('token')]);
+    expect(await check.ensureCompatible('token')).toBe(current);
+    expect(calls).toBe(1);
+  });
+
+  it('rejects proxies that predate versioning or speak another protocol', async () => {
+    await expect(createProxyVersionCheck(async () => ({ status: 'ok' })).ensureCompatible('token'))
+      .rejects.toThrow(/predates protocol versioning.*rownd-supabase upgrade/);
+    await expect(createProxyVersionCheck(async () => ({ ...current, protocol: PROXY_PROTOCOL_VERSION - 1 })).ensureCompatible('token'))
+      .rejects.toThrow(/rownd-supabase upgrade/);
+    await expect(createProxyVersionCheck(async () => ({ ...current, protocol: PROXY_PROTOCOL_VERSION + 1 })).ensureCompatible('token'))
+      .rejects.toThrow(/Upgrade @rownd\/supabase-js/);
+    await expect(createProxyVersionCheck(async () => ({ ...current, wireVersions: [QUERY_WIRE_VERSION + 1] })).ensureCompatible('token'))
+      .rejects.toThrow(/query wire format/);
+  });
+
+  it('asks again after a failed request but not after a mismatch', async () => {
+    const answers: (() => ProxyHealth)[] = [
+      () => { throw new Error('Failed to fetch'); },
+      () => ({ status: 'ok' }),
+      () => current
+    ];
+    const check = createProxyVersionCheck(async () => answers.shift()!());
+
+    await expect(check.ensureCompatible('token')).rejects.toThrow('Failed to fetch');
+    await expect(check.ensureCompatible('token')).rejects.toThrow(/predates/);
+    await expect(check.ensureCompatible('token')).rejects.toThrow(/predates/);
+    expect(answers).toHaveLength(1);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Proxy Version Negotiation
+ *
+ * Before its first proxy call a client asks the deployed proxy's health check
+ * which protocol and query wire format it speaks, so a deployment older or
+ * newer than the package fails with a clear error instead of misreading
+ * requests.
+ */
+
+import { PROXY_PROTOCOL_VERSION } from './proxy';
+import { QUERY_WIRE_VERSION } from './query';
+
+export interface ProxyHealth {
+  status: string;
+  // Only on the authenticated health operation
+  userId?: string;
+  tokenSource?: string;
+  // Missing from proxies that predate versioning
+  protocol?: number;
+  wireVersions?: number[];
+  capabilities?: string[];
+  build?: string;
+  policyHash?: string;
+  // Only on GET /health: each dependency the proxy needs
+  checks?: Record<string, { ok: boolean; error?: string }>;
+}
+
+export interface ProxyVersionCheck {
+  ensureCompatible: (rowndToken: string) => Promise<ProxyHealth>; // Rejects when the proxy can't serve this client
+}
+
+const UPGRADE_HINT = 'Run `npx rownd-supabase upgrade` to redeploy the proxy from this package';
+
+export function createProxyVersionCheck(
+  getHealth: (rowndToken: string) => Promise<ProxyHealth>
+): ProxyVersionCheck {
+  let negotiated: Promise<ProxyHealth> | null = null;
+
+  const negotiate = async (rowndToken: string): Promise<ProxyHealth> => {
+    let health: ProxyHealth;
+    try {
+      health = await getHealth(rowndToken);
+    } catch (error) {
+      // Try again on the next call; a version mismatch, below, stays until
+      // the page reloads against a fixed deployment
+      negotiated = null;
+      throw error;
+    }
+
+    if (health.protocol === undefined) {
+      throw new Error(
+        `The deployed Rownd proxy predates protocol versioning; @rownd/supabase-js needs protocol ${PROXY_PROTOCOL_VERSION}. ${UPGRADE_HINT}`
+      );
+    }
+    if (health.protocol !== PROXY_PROTOCOL_VERSION) {
+      throw new Error(
+        `The deployed Rownd proxy speaks protocol ${health.protocol}, but @rownd/supabase-js needs protocol ${PROXY_PROTOCOL_VERSION}. ` +
+        (health.protocol < PROXY_PROTOCOL_VERSION ? UPGRADE_HINT : 'Upgrade @rownd/supabase-js to match the deployed proxy')
+      );
+    }
+    if (!health.wireVersions?.includes(QUERY_WIRE_VERSION)) {
+      throw new Error(
+        `The deployed Rownd proxy doesn't understand query wire format ${QUERY_WIRE_VERSION}. ${UPGRADE_HINT}`
+      );
+    }
+    return health;
+  };
+
+  return {
+    ensureCompatible(rowndToken) {
+      if (!negotiated) {
+        negotiated = negotiate(rowndToken);
+      }
+      return negotiated;
+    }
+  };
+}
@@ -0,0 +1,414 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryProxyOptions, Row, createMemoryProxy, createMockToken } from './memory-proxy';
+import type { QueryCall, QueryOperation } from './query';
+import { QUERY_WIRE_VERSION } from './query';
+
+const PROXY_URL = 'http://localhost:54321/functions/v1/_rownd_universal_proxy';
+
+const policy: MemoryProxyOptions['policy'] = {
+  defaults: { ownerColumn: 'user_id' },
+  tables: {
+    todos: { embeds: ['reports'] },
+    profiles: { columns: ['id', 'user_id', 'name'] },
+    directory: { public: true, columns: ['id', 'name'] },
+    drafts: { allowUnfilteredMutations: true },
+    reports: { requireRoles: ['analyst'], requireVerifiedEmail: true }
+  },
+  functions: {
+    search_todos: { userIdParam: 'owner' },
+    purge_stale: { requireRoles: ['admin'] }
+  }
+};
+
+function seed(): Record<string, Row[]> {
+  return {
+    todos: [
+      { id: 1, user_id: 'user_1', title: 'Mine', done: false },
+      { id: 2, user_id: 'user_2', title: 'Theirs', done: false },
+      { id: 3, user_id: 'user_1', title: 'Finished', done: true }
+    ],
+    profiles: [
+      { id: 1, user_id: 'user_1', name: 'Ada', ssn: '123-45-6789' },
+      { id: 2, user_id: 'user_2', name: 'Grace', ssn: '987-65-4321' }
+    ],
+    directory: [
+      { id: 1, user_id: 'user_1', name: 'Ada', salary: 900 },
+      { id: 2, user_id: 'user_2', name: 'Grace', salary: 400 }
+    ],
+    reports: [{ id: 1, user_id: 'user_1', total: 10 }],
+    drafts: [
+      { id: 1, user_id: 'user_1', body: 'One' },
+      { id: 2, user_id: 'user_1', body: 'Two' },
+      { id: 3, user_id: 'user_2', body: 'Theirs' }
+    ]
+  };
+}
+
+const functions: MemoryProxyOptions['functions'] = {
+  search_todos: (args, { userId }) => [
+    { title: `${args.term} for ${args.owner}`, caller: userId, done: false },
+    { title: 'Done', caller: userId, done: true }
+  ],
+  purge_stale: () => 'purged',
+  drop_everything: () => 'dropped'
+};
+
+function setup() {
+  const proxy = createMemoryProxy({ policy, tables: seed(), functions });
+
+  const send = async (body: string | Record<string, unknown>, userId = 'user_1', claims?: Record<string, unknown>) => {
+    const response = await proxy.handle(new Request(PROXY_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Rownd-Token': createMockToken(userId, claims) },
+      body: typeof body === 'string' ? body : JSON.stringify(body)
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+
+  // Sends a query the way the client records it: the operation's arguments
+  // plus every filter and modifier in call order
+  const query = (
+    table: string,
+    operation: QueryOperation,
+    args: unknown[],
+    chain: QueryCall[] = [],
+    userId?: string,
+    claims?: Record<string, unknown>
+  ) =>
+    send({
+      resource: 'database',
+      operation,
+      table,
+      query: { version: QUERY_WIRE_VERSION, operation, args, chain }
+    }, userId, claims);
+
+  // Calls a Postgres function the way the client's rpc() records it
+  const rpc = (
+    functionName: string,
+    args: Record<string, unknown> = {},
+    { chain = [], options, claims }: { chain?: QueryCall[]; options?: Record<string, unknown>; claims?: Record<string, unknown> } = {}
+  ) =>
+    send({
+      resource: 'rpc',
+      operation: 'call',
+      functionName,
+      query: { version: QUERY_WIRE_VERSION, operation: 'rpc', args: [functionName, args, options], chain }
+    }, 'user_1', claims);
+
+  return { proxy, send, query, rpc };
+}
+
+describe('query replay', () => {
+  it('replays filters and modifiers in order', async () => {
+    const { query } = setup();
+    const { status, body } = await query('todos', 'select', ['id,title'], [
+      { method: 'eq', args: ['done', false] },
+      { method: 'order', args: ['id', { ascending: false }] },
+      { method: 'limit', args: [1] }
+    ]);
+
+    expect(status).toBe(200);
+    expect(body.data).toEqual([{ id: 1, title: 'Mine' }]);
+  });
+
+  it('replays count options and single()', async () => {
+    const { query } = setup();
+
+    const counted = await query('todos', 'select', ['*', { count: 'exact', head: true }]);
+    expect(counted.body.count).toBe(2);
+
+    const single = await query('todos', 'select', ['title'], [
+      { method: 'eq', args: ['id', 3] },
+      { method: 'single', args: [] }
+    ]);
+    expect(single.body.data).toEqual({ title: 'Finished' });
+  });
+
+  it('rejects methods the builder does not have', async () => {
+    const { query } = setup();
+    const { status, body } = await query('todos', 'select', ['*'], [{ method: 'constructor', args: [] }]);
+
+    expect(status).toBe(400);
+    expect(body.error).toMatch(/Unsupported query method/);
+  });
+
+  it('rejects chains that aren\'t method calls', async () => {
+    const { query } = setup();
+
+    for (const call of [null, 'eq', { method: 'eq' }, { method: ['eq'], args: [] }]) {
+      const { status, body } = await query('todos', 'select', ['*'], [call as any]);
+      expect(status).toBe(400);
+      expect(body.error).toMatch(/Malformed query/);
+    }
+  });
+
+  it('rejects other wire format versions', async () => {
+    const { send } = setup();
+    const { status } = await send({
+      resource: 'database',
+      operation: 'select',
+      table: 'todos',
+      query: { version: QUERY_WIRE_VERSION + 1, operation: 'select', args: ['*'], chain: [] }
+    });
+
+    expect(status).toBe(400);
+  });
+});
+
+describe('owner filtering', () => {
+  it('only returns the caller\'s rows', async () => {
+    const { query } = setup();
+
+    const mine = await query('todos', 'select', ['id']);
+    expect(mine.body.data).toEqual([{ id: 1 }, { id: 3 }]);
+
+    const theirs = await query('todos', 'select', ['id'], [], 'user_2');
+    expect(theirs.body.data).toEqual([{ id: 2 }]);
+  });
+
+  it('leaves other users\' rows alone on update and delete', async () => {
+    const { proxy, query } = setup();
+
+    const updated = await query('todos', 'update', [{ done: true }], [
+      { method: 'eq', args: ['id', 2] },
+      { method: 'select', args: [] }
+    ]);
+    expect(updated.body.data).toEqual([]);
+
+    await query('todos', 'delete', [], [{ method: 'eq', args: ['id', 2] }]);
+    expect(proxy.tables.todos.find(row => row.id === 2)).toMatchObject({ user_id: 'user_2', done: false });
+  });
+
+  it('refuses updates and deletes without a filter', async () => {
+    const { proxy, query } = setup();
+
+    expect((await query('todos', 'update', [{ done: true }])).status).toBe(400);
+    expect((await query('todos', 'delete', [])).status).toBe(400);
+    expect(proxy.tables.todos).toHaveLength(3);
+  });
+});
+
+describe('column allowlists', () => {
+  it('expands * to the allowed columns', async () => {
+    const { query } = setup();
+    const { body } = await query('profiles', 'select', ['*']);
+
+    expect(body.data).toEqual([{ id: 1, user_id: 'user_1', name: 'Ada' }]);
+  });
+
+  it('rejects reading, filtering on and writing other columns', async () => {
+    const { proxy, query } = setup();
+
+    expect((await query('profiles', 'select', ['name,ssn'])).status).toBe(403);
+    expect((await query('profiles', 'select', ['name'], [{ method: 'eq', args: ['ssn', '123-45-6789'] }])).status)
+      .toBe(403);
+    expect((await query('profiles', 'update', [{ ssn: 'changed' }], [{ method: 'eq', args: ['id', 1] }])).status)
+      .toBe(403);
+    expect(proxy.tables.profiles[0].ssn).toBe('123-45-6789');
+  });
+
+  it('checks every column an or() filter names', async () => {
+    const { query } = setup();
+    const or = (filters: string) => query('directory', 'select', ['name'], [{ method: 'or', args: [filters] }]);
+
+    expect((await or('salary.gt.500')).status).toBe(403);
+    expect((await or('not.salary.gt.500')).status).toBe(403);
+    expect((await or('name.eq.Ada,and(id.eq.1,not.salary.gt.500)')).status).toBe(403);
+    expect((await or('name.eq.Ada,not.or(id.eq.2,salary.lt.100)')).status).toBe(403);
+    expect((await or('name.eq."Ada, salary.gt.500"')).status).toBe(200);
+
+    const allowed = await or('name.eq.Grace,and(id.eq.1,name.not.eq.Grace)');
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.data).toEqual([{ name: 'Ada' }, { name: 'Grace' }]);
+  });
+});
+
+describe('table guards', () => {
+  it('refuses callers without the required roles or a verified email', async () => {
+    const { query } = setup();
+    const read = (claims: Record<string, unknown>) => query('reports', 'select', ['total'], [], 'user_1', claims);
+
+    const unverified = await read({ 'https://auth.rownd.io/roles': ['analyst'] });
+    expect(unverified.status).toBe(403);
+    expect(unverified.body.code).toBe('email_not_verified');
+
+    const verified = { email: 'a@example.com', email_verified: true };
+    expect((await read(verified)).body.code).toBe('missing_role');
+    expect((await read({ ...verified, 'https://auth.rownd.io/roles': ['analyst'] })).body.data).toEqual([{ total: 10 }]);
+  });
+
+  it('applies to tables embedded in a select', async () => {
+    const { query } = setup();
+
+    const { status, body } = await query('todos', 'select', ['id,reports(total)']);
+
+    expect(status).toBe(403);
+    expect(body.code).toBe('missing_role');
+  });
+});
+
+describe('mutations', () => {
+  it('applies update payloads to the rows the client filters select', async () => {
+    const { proxy, query } = setup();
+    const { body } = await query('todos', 'update', [{ title: 'Renamed' }], [
+      { method: 'eq', args: ['done', false] },
+      { method: 'select', args: ['id,title'] }
+    ]);
+
+    expect(body.data).toEqual([{ id: 1, title: 'Renamed' }]);
+    expect(proxy.tables.todos.map(row => row.title)).toEqual(['Renamed', 'Theirs', 'Finished']);
+  });
+
+  it('deletes only the caller\'s rows matching the filters', async () => {
+    const { proxy, query } = setup();
+    await query('todos', 'delete', [], [{ method: 'in', args: ['id', [1, 2]] }]);
+
+    expect(proxy.tables.todos.map(row => row.id)).toEqual([2, 3]);
+  });
+
+  it('returns inserted rows through a chained select', async () => {
+    const { query } = setup();
+    const { body } = await query('todos', 'insert', [{ id: 4, title: 'New' }], [{ method: 'select', args: ['id,user_id'] }]);
+
+    expect(body.data).toEqual([{ id: 4, user_id: 'user_1' }]);
+  });
+
+  it('won\'t hand a row to another owner', async () => {
+    const { proxy, query } = setup();
+    const { status } = await query('todos', 'update', [{ user_id: 'user_2' }], [{ method: 'eq', args: ['id', 1] }]);
+
+    expect(status).toBe(403);
+    expect(proxy.tables.todos[0].user_id).toBe('user_1');
+  });
+
+  it('allows unfiltered mutations where the policy opts in, still scoped to the owner', async () => {
+    const { proxy, query } = setup();
+    await query('drafts', 'update', [{ body: 'Cleared' }]);
+
+    expect(proxy.tables.drafts.map(row => row.body)).toEqual(['Cleared', 'Cleared', 'Theirs']);
+  });
+});
+
+describe('insert and upsert ownership', () => {
+  it('stamps inserted rows with the caller', async () => {
+    const { proxy, query } = setup();
+    const { body } = await query('todos', 'insert', [[
+      { id: 4, title: 'New' },
+      { id: 5, title: 'Forged', user_id: 'user_2' }
+    ]]);
+
+    expect(body.status).toBe(201);
+    expect(proxy.tables.todos.filter(row => row.id > 3).map(row => row.user_id)).toEqual(['user_1', 'user_1']);
+  });
+
+  it('requires an onConflict target present in every row', async () => {
+    const { query } = setup();
+
+    const missingTarget = await query('todos', 'upsert', [{ id: 1, title: 'Renamed' }]);
+    expect(missingTarget.status).toBe(400);
+    expect(missingTarget.body.error).toMatch(/must set onConflict/);
+
+    const missingColumn = await query('todos', 'upsert', [{ title: 'Renamed' }, { onConflict: 'id' }]);
+    expect(missingColumn.status).toBe(400);
+  });
+
+  it('won\'t upsert over another user\'s row', async () => {
+    const { proxy, query } = setup();
+    const { status } = await query('todos', 'upsert', [{ id: 2, title: 'Stolen' }, { onConflict: 'id' }]);
+
+    expect(status).toBe(403);
+    expect(proxy.tables.todos.find(row => row.id === 2)).toMatchObject({ user_id: 'user_2', title: 'Theirs' });
+  });
+
+  it('upserts the caller\'s own rows', async () => {
+    const { proxy, query } = setup();
+    const { body } = await query('todos', 'upsert', [{ id: 1, title: 'Renamed' }, { onConflict: 'id' }]);
+
+    expect(body.status).toBe(201);
+    expect(proxy.tables.todos.find(row => row.id === 1)).toMatchObject({ user_id: 'user_1', title: 'Renamed' });
+  });
+});
+
+describe('rpc allowlist', () => {
+  it('refuses functions the policy doesn\'t list', async () => {
+    const { rpc } = setup();
+    const { status } = await rpc('drop_everything');
+
+    expect(status).toBe(403);
+  });
+
+  it('overwrites the user ID argument with the caller', async () => {
+    const { rpc } = setup();
+    const { body } = await rpc('search_todos', { term: 'milk', owner: 'user_2' });
+
+    expect(body.data[0]).toEqual({ title: 'milk for user_1', caller: 'user_1', done: false });
+  });
+
+  it('checks the function\'s guards', async () => {
+    const { rpc } = setup();
+
+    expect((await rpc('purge_stale')).status).toBe(403);
+    const admin = await rpc('purge_stale', {}, { claims: { 'https://auth.rownd.io/roles': ['admin'] } });
+    expect(admin.body.data).toBe('purged');
+  });
+
+  it('rejects count options PostgREST doesn\'t have', async () => {
+    const { rpc } = setup();
+
+    expect((await rpc('search_todos', {}, { options: { count: 'all' } })).status).toBe(400);
+  });
+});
+
+describe('rpc query builder', () => {
+  it('replays filters and modifiers on the function\'s result', async () => {
+    const { rpc } = setup();
+    const { body } = await rpc('search_todos', { term: 'milk' }, {
+      chain: [
+        { method: 'eq', args: ['done', true] },
+        { method: 'select', args: ['title'] },
+        { method: 'single', args: [] }
+      ]
+    });
+
+    expect(body.data).toEqual({ title: 'Done' });
+  });
+
+  it('counts without returning rows under head', async () => {
+    const { rpc } = setup();
+    const { body } = await rpc('search_todos', {}, { options: { head: true, count: 'exact' } });
+
+    expect(body.data).toBeNull();
+  });
+});
+
+describe('token sources', () => {
+  it('reads the token from the sources the policy lists', async () => {
+    const proxy = createMemoryProxy({ policy: { token: { bearer: true, cookie: 'rownd_token', query: 'access_token' } } });
+    const token = createMockToken('user_1');
+    const health = async (init: RequestInit, url = PROXY_URL) => {
+      const response = await proxy.handle(new Request(url, { method: 'POST', ...init, body: JSON.stringify({ resource: 'health' }) }));
+      return response.json();
+    };
+
+    expect(await health({ headers: { Authorization: `Bearer ${token}` } })).toMatchObject({ userId: 'user_1', tokenSource: 'bearer' });
+    expect(await health({ headers: { Cookie: `rownd_token=${token}` } })).toMatchObject({ tokenSource: 'cookie' });
+    expect(await health({}, `${PROXY_URL}?access_token=${token}`)).toMatchObject({ tokenSource: 'query' });
+    expect((await health({ headers: { Authorization: 'Bearer anon-key' } })).error).toBeTruthy();
+  });
+});
+
+describe('malformed requests', () => {
+  it('answers 400 rather than 500', async () => {
+    const { send } = setup();
+
+    expect((await send('{"resource": "database",')).status).toBe(400);
+    expect((await send('null')).status).toBe(400);
+    expect((await send({ resource: 'nope' })).status).toBe(400);
+    expect((await send({
+      resource: 'database',
+      operation: 'select',
+      query: { version: QUERY_WIRE_VERSION, operation: 'select', args: ['*'], chain: [] }
+    })).status).toBe(400);
+    expect((await send({ resource: 'database', operation: 'truncate', table: 'todos' })).status).toBe(400);
+  });
+});
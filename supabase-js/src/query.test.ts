@@ -0,0 +1,89 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import { createMockClient } from './testing';
+
+function setup() {
+  return createMockClient({
+    userId: 'user_1',
+    tables: {
+      todos: [
+        { id: 1, user_id: 'user_1', title: 'Mine', done: false },
+        { id: 2, user_id: 'user_1', title: 'Also mine', done: true },
+        { id: 3, user_id: 'user_2', title: 'Theirs', done: false }
+      ]
+    }
+  });
+}
+
+describe('recorded queries', () => {
+  it('sends modifiers in call order and keeps local methods out of the chain', async () => {
+    const mock = setup();
+    await mock.client
+      .from('todos')
+      .select('id')
+      .eq('done', false)
+      .abortSignal(new AbortController().signal)
+      .returns<{ id: number }[]>()
+      .order('id')
+      .limit(1);
+
+    const { body } = mock.expectCall({ operation: 'select', table: 'todos' }, 1);
+    expect(body.query.chain.map((call: { method: string }) => call.method)).toEqual(['eq', 'order', 'limit']);
+  });
+
+  it('resolves single() and maybeSingle() as postgrest-js does', async () => {
+    const mock = setup();
+
+    const one = await mock.client.from('todos').select('title').eq('id', 1).single();
+    expect(one).toMatchObject({ data: { title: 'Mine' }, error: null, status: 200 });
+
+    const many = await mock.client.from('todos').select('title').single();
+    expect(many).toMatchObject({ data: null, status: 406, error: { code: 'PGRST116' } });
+
+    const none = await mock.client.from('todos').select('title').eq('id', 3).maybeSingle();
+    expect(none).toMatchObject({ data: null, error: null });
+  });
+
+  it('relays counts and head requests', async () => {
+    const mock = setup();
+    const { data, count } = await mock.client.from('todos').select('*', { count: 'exact', head: true });
+
+    expect(data).toBeNull();
+    expect(count).toBe(2);
+  });
+
+  it('rejects with a PostgrestError under throwOnError()', async () => {
+    const mock = setup();
+
+    await expect(mock.client.from('todos').select('title').single().throwOnError())
+      .rejects.toBeInstanceOf(PostgrestError);
+  });
+
+  it('records filters chained on rpc()', async () => {
+    const mock = createMockClient({
+      userId: 'user_1',
+      policy: { functions: { top_todos: {} } },
+      functions: { top_todos: () => [{ id: 1, done: true }, { id: 2, done: false }] }
+    });
+    const { data } = await mock.client.rpc('top_todos', { limit: 5 }).eq('done', false).limit(1);
+
+    expect(data).toEqual([{ id: 2, done: false }]);
+    const { body } = mock.expectCall({ resource: 'rpc', functionName: 'top_todos' }, 1);
+    expect(body.query).toMatchObject({
+      operation: 'rpc',
+      args: ['top_todos', { limit: 5 }, null],
+      chain: [{ method: 'eq', args: ['done', false] }, { method: 'limit', args: [1] }]
+    });
+  });
+
+  it('resolves with an error response when there is no Rownd token', async () => {
+    const mock = setup();
+    mock.signOut();
+
+    expect(await mock.client.from('todos').select('*')).toMatchObject({
+      data: null,
+      status: 401,
+      error: { message: 'Failed to get authentication token from Rownd' }
+    });
+  });
+});
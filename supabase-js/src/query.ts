@@ -0,0 +1,125 @@
+/**
+ * Query Serialization for the Rownd Universal Proxy
+ *
+ * The supabase-js query builder keeps its state in private URL search params
+ * and headers, so instead of reading that state back we record every public
+ * builder call and send the call log to the proxy, which replays it against a
+ * real builder on the server.
+ */
+
+import { PostgrestError } from '@supabase/supabase-js';
+
+/**
+ * Version of the wire format sent in `query.version`.
+ * Bump this whenever the shape of `SerializedQuery` changes.
+ */
+export const QUERY_WIRE_VERSION = 1;
+
+export type QueryOperation = 'select' | 'insert' | 'update' | 'delete' | 'upsert' | 'rpc';
+
+export interface QueryCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface SerializedQuery {
+  version: number;
+  operation: QueryOperation;
+  args: unknown[]; // Arguments passed to the operation, e.g. select('id, tags(*)', { count: 'exact' }) or rpc(fn, args, options)
+  chain: QueryCall[]; // Filters and modifiers in the order they were called
+}
+
+export interface QueryRecording {
+  query: SerializedQuery;
+  signal?: AbortSignal;
+  throwOnError?: boolean;
+}
+
+// Mirrors the response object postgrest-js resolves with
+export interface QueryResponse {
+  success: boolean;
+  data: any;
+  error: any;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+export type QueryExecutor = (recording: QueryRecording) => Promise<QueryResponse>;
+
+// Builder methods that only affect the local request and are never sent to the proxy
+const LOCAL_METHODS = new Set(['returns', 'overrideTypes', 'abortSignal', 'throwOnError', 'setHeader', 'retry']);
+
+export function createRecording(operation: QueryOperation, args: unknown[]): QueryRecording {
+  return {
+    query: {
+      version: QUERY_WIRE_VERSION,
+      operation,
+      args,
+      chain: []
+    }
+  };
+}
+
+/**
+ * Wraps a real supabase-js builder so that every chained call is recorded
+ * and awaiting the builder runs `execute` instead of hitting PostgREST.
+ */
+export function recordQuery<T extends object>(
+  builder: T,
+  recording: QueryRecording,
+  execute: QueryExecutor
+): T {
+  return new Proxy(builder, {
+    get(target, prop) {
+      if (prop === 'then') {
+        return (onfulfilled?: (value: any) => any, onrejected?: (reason: any) => any) =>
+          execute(recording)
+            .then(response => {
+              if (recording.throwOnError && response.error) {
+                throw new PostgrestError(response.error);
+              }
+              return response;
+            })
+            .then(onfulfilled, onrejected);
+      }
+
+      const value = Reflect.get(target, prop, target);
+      if (typeof prop !== 'string' || typeof value !== 'function') {
+        return value;
+      }
+
+      return (...args: unknown[]) => {
+        if (prop === 'abortSignal') {
+          recording.signal = args[0] as AbortSignal;
+        } else if (prop === 'throwOnError') {
+          recording.throwOnError = true;
+        } else if (!LOCAL_METHODS.has(prop)) {
+          recording.query.chain.push({ method: prop, args });
+        }
+
+        const result = value.apply(target, args);
+        return isBuilder(result) ? recordQuery(result, recording, execute) : result;
+      };
+    }
+  });
+}
+
+/**
+ * Builds the response postgrest-js would resolve with when the request never
+ * reached PostgREST (no token, proxy unreachable, proxy rejected the query).
+ */
+export function failedQueryResponse(message: string, status = 0, statusText = ''): QueryResponse {
+  return {
+    success: false,
+    data: null,
+    error: { message, details: '', hint: '', code: '' },
+    count: null,
+    status,
+    statusText
+  };
+}
+
+function isBuilder(value: unknown): value is object {
+  return typeof value === 'object' && value !== null && typeof (value as any).then === 'function';
+}
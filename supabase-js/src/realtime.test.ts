@@ -0,0 +1,83 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { describe, expect, it } from 'vitest';
+import { RealtimeAuthorization, scopeChannel } from './realtime';
+
+// A channel stand-in that records bindings, so tests can push payloads
+// through the callbacks the scoped channel registered
+function fakeChannel() {
+  const bindings: { type: string; filter: any; callback: (payload: any) => void }[] = [];
+  let subscribed = false;
+  const channel = {
+    on(type: string, filter: any, callback: (payload: any) => void) {
+      bindings.push({ type, filter, callback });
+      return channel;
+    },
+    subscribe() {
+      subscribed = true;
+      return channel;
+    }
+  };
+  return { channel: channel as unknown as RealtimeChannel, bindings, isSubscribed: () => subscribed };
+}
+
+const owned: RealtimeAuthorization = { userId: 'user_1', ownerColumn: 'user_id' };
+
+async function subscribe(filter: Record<string, unknown>, authorization = owned) {
+  const fake = fakeChannel();
+  const received: any[] = [];
+  const statuses: [string, Error?][] = [];
+  scopeChannel(fake.channel, async () => authorization)
+    .on('postgres_changes' as any, { event: '*', schema: 'public', ...filter }, (payload: any) => received.push(payload))
+    .subscribe((status, error) => statuses.push([status, error]));
+  await new Promise(resolve => setTimeout(resolve, 0));
+  return { ...fake, received, statuses };
+}
+
+describe('scopeChannel', () => {
+  it('subscribes with the owner filter and applies the caller\'s in the client', async () => {
+    const { bindings, received, isSubscribed } = await subscribe({ table: 'todos', filter: 'status=eq.open' });
+
+    expect(isSubscribed()).toBe(true);
+    expect(bindings[0].filter).toEqual({ event: '*', schema: 'public', table: 'todos', filter: 'user_id=eq.user_1' });
+
+    const deliver = (eventType: string, row: Record<string, unknown>) =>
+      bindings[0].callback({ eventType, new: eventType === 'DELETE' ? {} : row, old: eventType === 'DELETE' ? row : {} });
+    deliver('INSERT', { id: 1, user_id: 'user_1', status: 'open' });
+    deliver('INSERT', { id: 2, user_id: 'user_1', status: 'done' });
+    deliver('INSERT', { id: 3, user_id: 'user_2', status: 'open' });
+    deliver('DELETE', { id: 4 });
+    deliver('DELETE', { id: 5, user_id: 'user_1', status: 'open' });
+
+    expect(received.map(payload => (payload.eventType === 'DELETE' ? payload.old : payload.new).id)).toEqual([1, 5]);
+  });
+
+  it('leaves public tables unfiltered', async () => {
+    const filter = { table: 'announcements', filter: 'pinned=eq.true' };
+    const { bindings } = await subscribe(filter, { userId: 'user_1', ownerColumn: null });
+
+    expect(bindings[0].filter).toEqual({ event: '*', schema: 'public', ...filter });
+  });
+
+  it('evaluates comparison and in filters', async () => {
+    const { bindings, received } = await subscribe({ table: 'todos', filter: 'priority=in.(1,"3")' });
+    for (const priority of [1, 2, 3]) {
+      bindings[0].callback({ eventType: 'UPDATE', new: { user_id: 'user_1', priority } });
+    }
+    expect(received.map(payload => payload.new.priority)).toEqual([1, 3]);
+
+    const ranged = await subscribe({ table: 'todos', filter: 'priority=gte.10' });
+    for (const priority of [9, 10, 11]) {
+      ranged.bindings[0].callback({ eventType: 'UPDATE', new: { user_id: 'user_1', priority } });
+    }
+    expect(ranged.received.map(payload => payload.new.priority)).toEqual([10, 11]);
+  });
+
+  it('reports unsupported filters and tableless bindings as channel errors', async () => {
+    for (const filter of [{ table: 'todos', filter: 'title=like.*a*' }, {}]) {
+      const { statuses, isSubscribed } = await subscribe(filter);
+
+      expect(isSubscribed()).toBe(false);
+      expect(statuses[0][0]).toBe('CHANNEL_ERROR');
+    }
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Realtime Channels Scoped to the Rownd User
+ *
+ * postgres_changes bindings are held back until subscribe(), when the proxy
+ * tells us which ownership rule applies to each table. Realtime accepts one
+ * filter per binding, so the binding is registered with an `owner=eq.<userId>`
+ * filter in place of the caller's, which is applied here instead. Payloads
+ * are checked again on arrival so other users' rows are never delivered.
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+
+export interface RealtimeAuthorization {
+  userId: string;
+  ownerColumn: string | null; // null for public and shared tables
+}
+
+export type RealtimeAuthorizer = (table: string) => Promise<RealtimeAuthorization>;
+
+interface PendingBinding {
+  filter: { event: string; schema: string; table?: string; filter?: unknown };
+  callback: (payload: any) => void;
+}
+
+export function scopeChannel(channel: RealtimeChannel, authorize: RealtimeAuthorizer): RealtimeChannel {
+  const pending: PendingBinding[] = [];
+
+  const scoped: RealtimeChannel = new Proxy(channel, {
+    get(target, prop) {
+      if (prop === 'on') {
+        return (type: string, filter: any, callback: (payload: any) => void) => {
+          if (type === 'postgres_changes') {
+            pending.push({ filter, callback });
+          } else {
+            (target.on as (...args: any[]) => RealtimeChannel)(type, filter, callback);
+          }
+          return scoped;
+        };
+      }
+
+      if (prop === 'subscribe') {
+        return (callback?: (status: string, error?: Error) => void, timeout?: number) => {
+          const bindings = pending.splice(0);
+          if (bindings.length === 0) {
+            target.subscribe(callback, timeout);
+            return scoped;
+          }
+
+          Promise.all(bindings.map(binding => bindScoped(target, binding, authorize)))
+            .then(() => {
+              target.subscribe(callback, timeout);
+            })
+            .catch(error => {
+              callback?.('CHANNEL_ERROR', error instanceof Error ? error : new Error(String(error)));
+            });
+
+          return scoped;
+        };
+      }
+
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+
+  return scoped;
+}
+
+async function bindScoped(
+  channel: RealtimeChannel,
+  { filter, callback }: PendingBinding,
+  authorize: RealtimeAuthorizer
+): Promise<void> {
+  if (!filter?.table) {
+    throw new Error('Realtime postgres_changes subscriptions must name a table');
+  }
+
+  const { userId, ownerColumn } = await authorize(filter.table);
+  if (!ownerColumn) {
+    (channel.on as (...args: any[]) => RealtimeChannel)('postgres_changes', filter, callback);
+    return;
+  }
+
+  const matchesFilter = parseFilter(filter.filter);
+
+  (channel.on as (...args: any[]) => RealtimeChannel)(
+    'postgres_changes',
+    { ...filter, filter: `${ownerColumn}=eq.${userId}` },
+    (payload: any) => {
+      // Delete payloads only carry the primary key unless the table uses
+      // REPLICA IDENTITY FULL, so deletes that can't be attributed are dropped
+      const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+      if (row?.[ownerColumn] === userId && matchesFilter(row)) {
+        callback(payload);
+      }
+    }
+  );
+}
+
+const FILTER_OPERATORS = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'in'];
+
+// Evaluate a Realtime filter such as `status=eq.open` or `id=in.(1,2)` on a row
+function parseFilter(filter: unknown): (row: Record<string, unknown>) => boolean {
+  if (filter === undefined || filter === null || filter === '') {
+    return () => true;
+  }
+
+  const match = /^([^=]+)=([a-z]+)\.(.*)$/s.exec(String(filter));
+  if (!match || !FILTER_OPERATORS.includes(match[2])) {
+    throw new Error(`Unsupported Realtime filter: ${String(filter)}`);
+  }
+  const [, column, operator, value] = match;
+  const values = operator === 'in'
+    ? value.replace(/^\(|\)$/g, '').split(',').map(item => item.trim().replace(/^"|"$/g, ''))
+    : [value];
+
+  return row => {
+    const actual = row[column];
+    if (actual === undefined) return false;
+    const order = compare(actual, value);
+    switch (operator) {
+      case 'eq': return String(actual) === value;
+      case 'neq': return String(actual) !== value;
+      case 'lt': return order < 0;
+      case 'lte': return order <= 0;
+      case 'gt': return order > 0;
+      case 'gte': return order >= 0;
+      default: return values.includes(String(actual));
+    }
+  };
+}
+
+function compare(actual: unknown, value: string): number {
+  const [left, right] = [Number(actual), Number(value)];
+  if (actual !== '' && value !== '' && Number.isFinite(left) && Number.isFinite(right)) {
+    return left - right;
+  }
+  return String(actual) < value ? -1 : String(actual) > value ? 1 : 0;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { createMockClient } from './testing';
+
+function setup() {
+  return createMockClient({
+    userId: 'user_1',
+    policy: { storage: { maxSignedUrlExpiresIn: 3600 } },
+    buckets: {
+      videos: {
+        'user_1/intro.mp4': new Blob(['0123456789'], { type: 'video/mp4' }),
+        'user_2/theirs.mp4': new Blob(['secret'])
+      }
+    }
+  });
+}
+
+describe('signed URLs', () => {
+  it('signs paths inside the caller\'s folder', async () => {
+    const videos = setup().client.storage.from('videos');
+
+    const { data, error } = await videos.createSignedUrl('intro.mp4', 600);
+    expect(error).toBeNull();
+    expect(data!.signedUrl).toContain('/object/sign/videos/user_1/intro.mp4?token=');
+
+    const { data: many } = await videos.createSignedUrls(['intro.mp4', 'missing.mp4'], 600);
+    expect(many!.map(entry => [entry.path, entry.error === null])).toEqual([['intro.mp4', true], ['missing.mp4', false]]);
+
+    const { data: upload } = await videos.createSignedUploadUrl('raw/new.mp4');
+    expect(upload!.signedUrl).toContain('/object/upload/sign/videos/user_1/raw/new.mp4');
+  });
+
+  it('refuses other users\' files and expiries over the cap', async () => {
+    const videos = setup().client.storage.from('videos');
+
+    expect((await videos.createSignedUrl('theirs.mp4', 600)).error).toBeTruthy();
+    expect((await videos.createSignedUrl('../user_2/theirs.mp4', 600)).error).toBeTruthy();
+    expect((await videos.createSignedUrl('intro.mp4', 7200)).error?.message).toMatch(/between 1 and 3600 seconds/);
+  });
+});
+
+describe('downloads', () => {
+  it('streams the object as a Blob with its content type', async () => {
+    const { data, error } = await setup().client.storage.from('videos').download('intro.mp4');
+
+    expect(error).toBeNull();
+    expect(data!.type).toBe('video/mp4');
+    expect(await data!.text()).toBe('0123456789');
+  });
+
+  it('fetches a byte range', async () => {
+    const videos = setup().client.storage.from('videos') as any;
+    const { data } = await videos.download('intro.mp4', { range: { start: 2, end: 5 } });
+
+    expect(await data.text()).toBe('2345');
+  });
+
+  it('can\'t reach other users\' files', async () => {
+    const videos = setup().client.storage.from('videos');
+
+    expect((await videos.download('theirs.mp4')).data).toBeNull();
+    expect((await videos.download('../user_2/theirs.mp4')).error).toBeTruthy();
+  });
+});
+
+describe('file and bucket methods', () => {
+  function setupFiles() {
+    return createMockClient({
+      userId: 'user_1',
+      policy: { storage: { adminClaim: 'https://auth.rownd.io/is_admin' } },
+      buckets: {
+        documents: { 'user_1/drafts/report.txt': new Blob(['draft']), 'user_2/report.txt': new Blob(['theirs']) },
+        archive: {}
+      }
+    });
+  }
+
+  it('moves, copies and inspects files inside the caller\'s folder', async () => {
+    const mock = setupFiles();
+    const files = mock.client.storage.from('documents');
+
+    await files.move('drafts/report.txt', 'final/report.txt');
+    await files.copy('final/report.txt', 'report.txt', { destinationBucket: 'archive' });
+
+    expect([...mock.buckets.documents.objects.keys()]).toEqual(['user_2/report.txt', 'user_1/final/report.txt']);
+    expect(mock.buckets.archive.objects.has('user_1/report.txt')).toBe(true);
+    expect((await files.exists('final/report.txt')).data).toBe(true);
+    expect((await files.info('final/report.txt')).data).toMatchObject({ size: 5 });
+    expect((await files.list('final')).data!.map(file => file.name)).toEqual(['report.txt']);
+
+    const { data: removed } = await files.remove(['final/report.txt', 'report.txt']);
+    expect(removed).toHaveLength(1);
+    expect(mock.buckets.documents.objects.get('user_2/report.txt')).toBeDefined();
+  });
+
+  it('uploads strings, ArrayBuffers and typed arrays', async () => {
+    const mock = setupFiles();
+    const files = mock.client.storage.from('documents');
+
+    const bodies = { 'a.txt': 'text', 'b.bin': new TextEncoder().encode('bytes').buffer, 'c.bin': new Uint8Array([1, 2]) };
+    for (const [path, body] of Object.entries(bodies)) {
+      expect((await files.upload(path, body)).error).toBeNull();
+    }
+    expect(new TextDecoder().decode(mock.buckets.documents.objects.get('user_1/a.txt')!.data)).toBe('text');
+    expect(mock.buckets.documents.objects.get('user_1/c.bin')!.data).toEqual(new Uint8Array([1, 2]));
+    expect((await files.upload('d.bin', 42 as any)).error?.message).toMatch(/take a Blob, File, ArrayBuffer/);
+  });
+
+  it('only lets tokens with the admin claim set to true manage buckets', async () => {
+    const mock = setupFiles();
+
+    expect((await mock.client.storage.listBuckets()).data).toHaveLength(2);
+    expect((await mock.client.storage.createBucket('shared')).error).toBeTruthy();
+
+    mock.signIn('user_1', { 'https://auth.rownd.io/is_admin': 'true' });
+    expect((await mock.client.storage.createBucket('shared')).error).toBeTruthy();
+
+    mock.signIn('user_1', { 'https://auth.rownd.io/is_admin': true });
+    expect((await mock.client.storage.createBucket('shared')).error).toBeNull();
+    expect(mock.buckets.shared).toBeDefined();
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Storage Routed Through the Rownd Universal Proxy
+ *
+ * Wraps the real StorageClient and StorageFileApi so every method that touches
+ * objects or buckets goes through the proxy, which scopes object paths to the
+ * caller's `<userId>/` folder and gates bucket management behind an admin
+ * claim. Methods that never hit the network (getPublicUrl, toBase64) and
+ * uploadToSignedUrl, which is authorized by its signed token, pass through.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ChunkedUploadOptions, ProxyInvoker, uploadInChunks } from './upload';
+
+type StorageClient = SupabaseClient['storage'];
+type StorageFileApi = ReturnType<StorageClient['from']>;
+
+export interface DownloadOptions {
+  transform?: NonNullable<Parameters<StorageFileApi['createSignedUrl']>[2]>['transform'];
+  range?: { start: number; end?: number }; // Byte range, inclusive, e.g. { start: 0, end: 1023 }
+}
+
+// Bodies upload() and update() accept; anything but a Blob is copied into one
+export type UploadBody = Blob | ArrayBuffer | ArrayBufferView | string;
+
+// Calls the proxy with fetch directly, for responses functions.invoke can't decode
+export type ProxyFetcher = (
+  body: Record<string, unknown>,
+  headers?: Record<string, string>
+) => Promise<Response>;
+
+// Operations on a whole bucket; the proxy lets any signed-in user read bucket
+// metadata and requires the admin claim for the rest
+const BUCKET_OPERATIONS = [
+  'getBucket',
+  'createBucket',
+  'updateBucket',
+  'emptyBucket',
+  'deleteBucket',
+  'purgeBucketCache'
+];
+
+export function wrapStorage(
+  storage: StorageClient,
+  invokeProxy: ProxyInvoker,
+  fetchProxy: ProxyFetcher
+): StorageClient {
+  return new Proxy(storage, {
+    get(target, prop) {
+      if (prop === 'from') {
+        return (bucket: string) => wrapBucket(target.from(bucket), bucket, invokeProxy, fetchProxy);
+      }
+
+      if (prop === 'listBuckets') {
+        return (options?: unknown) => invokeProxy({ resource: 'storage', operation: 'listBuckets', options });
+      }
+
+      if (typeof prop === 'string' && BUCKET_OPERATIONS.includes(prop)) {
+        return (bucketId: string, options?: unknown) =>
+          invokeProxy({ resource: 'storage', operation: prop, bucketId, options });
+      }
+
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+function wrapBucket(
+  fileApi: StorageFileApi,
+  bucket: string,
+  invokeProxy: ProxyInvoker,
+  fetchProxy: ProxyFetcher
+): StorageFileApi {
+  const call = (operation: string, params: Record<string, unknown>) =>
+    invokeProxy({ resource: 'storage', operation, bucket, ...params });
+
+  const upload = async (path: string, file: UploadBody, options?: ChunkedUploadOptions) => {
+    let blob: Blob;
+    try {
+      blob = toBlob(file);
+    } catch (error) {
+      return { data: null, error };
+    }
+    return uploadInChunks(invokeProxy, bucket, path, blob, options);
+  };
+
+  const methods: Record<string, (...args: any[]) => unknown> = {
+    upload: (path: string, file: UploadBody, options?: ChunkedUploadOptions) =>
+      upload(path, file, options),
+
+    update: (path: string, file: UploadBody, options?: ChunkedUploadOptions) =>
+      upload(path, file, { ...options, upsert: true }),
+
+    download: (path: string, options?: DownloadOptions) =>
+      downloadBlob(fetchProxy, bucket, path, options),
+
+    move: (fromPath: string, toPath: string, options?: unknown) =>
+      call('move', { fromPath, toPath, options }),
+
+    copy: (fromPath: string, toPath: string, options?: unknown) =>
+      call('copy', { fromPath, toPath, options }),
+
+    info: (path: string) => call('info', { path }),
+
+    exists: (path: string) => call('exists', { path }),
+
+    remove: (paths: string[]) => call('remove', { paths }),
+
+    list: (path?: string, options?: unknown) => call('list', { path, options }),
+
+    listV2: (options?: unknown) => call('listV2', { options }),
+
+    purgeCache: (path: string, options?: unknown) => call('purgeCache', { path, options }),
+
+    // Signed URLs let the browser talk to Storage directly; the proxy
+    // only issues them for paths inside the caller's folder
+    createSignedUrl: (path: string, expiresIn: number, options?: unknown) =>
+      call('createSignedUrl', { path, expiresIn, options }),
+
+    createSignedUrls: (paths: string[], expiresIn: number, options?: unknown) =>
+      call('createSignedUrls', { paths, expiresIn, options }),
+
+    // Pass the returned `path` and `token` to uploadToSignedUrl()
+    createSignedUploadUrl: (path: string, options?: unknown) =>
+      call('createSignedUploadUrl', { path, options })
+  };
+
+  return new Proxy(fileApi, {
+    get(target, prop) {
+      if (typeof prop === 'string' && prop in methods) {
+        return methods[prop];
+      }
+
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    }
+  });
+}
+
+// Chunks are cut with Blob.slice(), so other bodies are copied into a Blob
+// first. Strings get the same content type supabase-js gives them.
+function toBlob(file: UploadBody): Blob {
+  if (file instanceof Blob) {
+    return file;
+  }
+  if (typeof file === 'string') {
+    return new Blob([file], { type: 'text/plain;charset=UTF-8' });
+  }
+  if (file instanceof ArrayBuffer) {
+    return new Blob([file]);
+  }
+  if (ArrayBuffer.isView(file)) {
+    return new Blob([new Uint8Array(file.buffer, file.byteOffset, file.byteLength).slice()]);
+  }
+  throw new TypeError('Uploads through the Rownd proxy take a Blob, File, ArrayBuffer, typed array or string');
+}
+
+async function downloadBlob(
+  fetchProxy: ProxyFetcher,
+  bucket: string,
+  path: string,
+  options?: DownloadOptions
+): Promise<{ data: Blob | null; error: Error | null }> {
+  const headers: Record<string, string> = {};
+  if (options?.range) {
+    headers['Range'] = `bytes=${options.range.start}-${options.range.end ?? ''}`;
+  }
+
+  try {
+    const response = await fetchProxy(
+      {
+        resource: 'storage',
+        operation: 'download',
+        bucket,
+        path,
+        options: { transform: options?.transform }
+      },
+      headers
+    );
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      return { data: null, error: new Error(body?.error || response.statusText) };
+    }
+
+    return { data: await response.blob(), error: null };
+  } catch (error) {
+    return { data: null, error: error instanceof Error ? error : new Error(String(error)) };
+  }
+}
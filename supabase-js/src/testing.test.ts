@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createMockClient } from './testing';
+
+function setup() {
+  return createMockClient({
+    userId: 'user_1',
+    policy: {
+      defaults: { ownerColumn: 'user_id' },
+      tables: { todos: {} },
+      functions: { top_todos: {} }
+    },
+    tables: {
+      todos: [
+        { id: 1, user_id: 'user_1', title: 'Mine' },
+        { id: 2, user_id: 'user_2', title: 'Theirs' }
+      ]
+    },
+    buckets: { avatars: { 'user_1/me.txt': new Blob(['hello']) } },
+    functions: {
+      top_todos: (_args, { userId }) => [{ title: `Top for ${userId}` }],
+      unlisted: () => [{ secret: true }]
+    }
+  });
+}
+
+describe('createMockClient', () => {
+  it('runs queries through the proxy as the signed-in user', async () => {
+    const mock = setup();
+    const { data, error } = await mock.client.from('todos').select('id, title');
+
+    expect(error).toBeNull();
+    expect(data).toEqual([{ id: 1, title: 'Mine' }]);
+    const call = mock.expectCall({ resource: 'database', operation: 'select', table: 'todos', userId: 'user_1' }, 1);
+    expect(call.body.query.chain).toEqual([]);
+  });
+
+  it('records writes in the live tables', async () => {
+    const mock = setup();
+    await mock.client.from('todos').insert({ id: 3, title: 'New' });
+
+    expect(mock.tables.todos.find(row => row.id === 3)).toMatchObject({ user_id: 'user_1', title: 'New' });
+    mock.expectNoCall({ operation: 'delete' });
+  });
+
+  it('switches users mid-test', async () => {
+    const mock = setup();
+
+    mock.signIn('user_2');
+    expect((await mock.client.from('todos').select('title')).data).toEqual([{ title: 'Theirs' }]);
+
+    // Signed out, the client refuses before calling the proxy
+    mock.signOut();
+    expect((await mock.client.from('todos').select('title')).error).toBeTruthy();
+    expect(mock.calls.map(call => call.userId)).toEqual(['user_2']);
+  });
+
+  it('serves storage from the user\'s folder', async () => {
+    const mock = setup();
+    const { data, error } = await mock.client.storage.from('avatars').download('me.txt');
+
+    expect(error).toBeNull();
+    expect(await data!.text()).toBe('hello');
+  });
+
+  it('only calls functions the policy lists', async () => {
+    const mock = setup();
+
+    expect((await mock.client.rpc('top_todos')).data).toEqual([{ title: 'Top for user_1' }]);
+    expect((await mock.client.rpc('unlisted')).error).toBeTruthy();
+  });
+
+  it('explains a failed expectation with the recorded calls', async () => {
+    const mock = setup();
+    await mock.client.from('todos').select('*');
+
+    expect(() => mock.expectCall({ operation: 'update' }))
+      .toThrow(/found 0\.\nRecorded calls:\n {2}database\.select todos as user_1 → 200/);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Test Doubles for @rownd/supabase-js
+ *
+ * createMockClient() returns the same client createClient() does, wired to
+ * an in-memory proxy instead of the network. Queries, storage calls and rpc()
+ * go through the real client code and the generated proxy function, so a
+ * component that reads another user's rows fails in tests the way it would
+ * in production. Every proxy call is recorded for assertions.
+ *
+ * Realtime channels and token exchange need a real Supabase project and are
+ * not emulated.
+ *
+ * @example
+ * ```typescript
+ * import { createMockClient } from '@rownd/supabase-js/testing'
+ *
+ * const mock = createMockClient({
+ *   userId: 'user_1',
+ *   tables: { todos: [{ id: 1, user_id: 'user_1', title: 'Mine' }, { id: 2, user_id: 'user_2', title: 'Theirs' }] },
+ * })
+ *
+ * const { data } = await mock.client.from('todos').select('*')  // Only 'Mine'
+ * mock.expectCall({ resource: 'database', operation: 'select', table: 'todos' })
+ * ```
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from './index';
+import {
+  MemoryBucket,
+  MemoryProxyOptions,
+  Row,
+  createMemoryProxy,
+  createMockToken,
+  decodeMockToken
+} from './memory-proxy';
+
+export interface MockClientOptions extends MemoryProxyOptions {
+  userId?: string | null; // Signed-in Rownd user (default: 'user_test'); null to start signed out
+  claims?: Record<string, unknown>; // Extra token claims, e.g. roles or a verified email
+}
+
+export interface ProxyCall {
+  resource: string;
+  operation?: string;
+  table?: string;
+  bucket?: string;
+  functionName?: string;
+  userId: string | null; // Subject of the token sent, null when none was
+  status: number;
+  body: Record<string, any>; // Request as the client sent it; database and rpc calls carry the recorded `query`
+}
+
+export type ProxyCallMatcher = Partial<Omit<ProxyCall, 'body'>>;
+
+export interface MockClient {
+  client: SupabaseClient;
+  tables: Record<string, Row[]>; // Live rows, for setup and assertions
+  buckets: Record<string, MemoryBucket>;
+  calls: ProxyCall[]; // Every proxy call, oldest first
+  getAccessToken: () => Promise<string | null>;
+  signIn(userId: string, claims?: Record<string, unknown>): void;
+  signOut(): void;
+  callsTo(match: ProxyCallMatcher): ProxyCall[];
+  expectCall(match: ProxyCallMatcher, times?: number): ProxyCall; // Throws unless exactly `times` calls match (default: at least one)
+  expectNoCall(match: ProxyCallMatcher): void;
+  clearCalls(): void;
+}
+
+const MOCK_SUPABASE_URL = 'http://rownd-mock.localhost';
+const PROXY_PATH = '/functions/v1/_rownd_universal_proxy';
+
+export function createMockClient(options: MockClientOptions = {}): MockClient {
+  const proxy = createMemoryProxy({ supabaseUrl: MOCK_SUPABASE_URL, ...options });
+  const calls: ProxyCall[] = [];
+  let token: string | null = options.userId === null
+    ? null
+    : createMockToken(options.userId ?? 'user_test', options.claims);
+
+  const mockFetch: typeof fetch = async (input, init) => {
+    const request = new Request(input, init);
+    const { pathname } = new URL(request.url);
+    if (pathname !== PROXY_PATH && pathname !== `${PROXY_PATH}/health`) {
+      return Response.json(
+        { message: `${pathname} is not available in the mock client` },
+        { status: 501 }
+      );
+    }
+
+    const call = await describeCall(request.clone());
+    const response = await proxy.handle(request);
+    calls.push({ ...call, status: response.status });
+    return response;
+  };
+
+  const getAccessToken = async () => token;
+
+  const callsTo = (match: ProxyCallMatcher) =>
+    calls.filter(call =>
+      Object.entries(match).every(([key, value]) => call[key as keyof ProxyCall] === value)
+    );
+
+  return {
+    client: createClient(MOCK_SUPABASE_URL, 'mock-anon-key', {
+      getAccessToken,
+      autoSetup: false,
+      checkProxyVersion: false, // Keeps health calls out of the recorded calls
+      fetch: mockFetch
+    }),
+    tables: proxy.tables,
+    buckets: proxy.buckets,
+    calls,
+    getAccessToken,
+
+    signIn(userId, claims) {
+      token = createMockToken(userId, claims);
+    },
+
+    signOut() {
+      token = null;
+    },
+
+    callsTo,
+
+    expectCall(match, times) {
+      const matched = callsTo(match);
+      if (times === undefined ? matched.length === 0 : matched.length !== times) {
+        const expected = times === undefined ? 'at least one' : String(times);
+        throw new Error(
+          `Expected ${expected} proxy call matching ${JSON.stringify(match)}, found ${matched.length}.\n` +
+          `Recorded calls:\n${formatCalls(calls)}`
+        );
+      }
+      return matched[0];
+    },
+
+    expectNoCall(match) {
+      const matched = callsTo(match);
+      if (matched.length > 0) {
+        throw new Error(
+          `Expected no proxy call matching ${JSON.stringify(match)}, found ${matched.length}.\n` +
+          `Recorded calls:\n${formatCalls(matched)}`
+        );
+      }
+    },
+
+    clearCalls() {
+      calls.length = 0;
+    }
+  };
+}
+
+async function describeCall(request: Request): Promise<Omit<ProxyCall, 'status'>> {
+  const token = request.headers.get('x-rownd-token');
+  let userId: string | null = null;
+  if (token) {
+    try {
+      userId = decodeMockToken(token).sub ?? null;
+    } catch {
+      // Reported by the proxy as an invalid token
+    }
+  }
+
+  // Upload chunks are raw binary described by headers, and the health route has no body
+  const uploadId = request.headers.get('x-rownd-upload-id');
+  const body = uploadId
+    ? { resource: 'storage', operation: 'upload-chunk', uploadId, index: Number(request.headers.get('x-rownd-chunk-index')) }
+    : request.method === 'GET'
+      ? { resource: 'health' }
+      : await request.json().catch(() => ({}));
+
+  return {
+    resource: body.resource,
+    operation: body.operation,
+    table: body.table,
+    bucket: body.bucket ?? body.bucketId,
+    functionName: body.functionName,
+    userId,
+    body
+  };
+}
+
+function formatCalls(calls: ProxyCall[]): string {
+  if (calls.length === 0) return '  (none)';
+  return calls
+    .map(call => {
+      const target = call.table ?? call.bucket ?? call.functionName;
+      return `  ${[call.resource, call.operation].filter(Boolean).join('.')}${target ? ` ${target}` : ''} as ${call.userId ?? 'anonymous'} → ${call.status}`;
+    })
+    .join('\n');
+}
+
+export { createMockToken } from './memory-proxy';
+export type { MemoryBucket, Row, RpcContext, RpcStub, StoredObject } from './memory-proxy';
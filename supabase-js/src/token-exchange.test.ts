@@ -0,0 +1,113 @@
+import * as jose from 'jose';
+import { describe, expect, it } from 'vitest';
+import { createMemoryProxy, createMockToken } from './memory-proxy';
+import { createTokenExchange } from './token-exchange';
+
+// A proxy stand-in that mints `jwt-for-<rownd token>` and answers each
+// exchange only when `release` is called
+function fakeProxy() {
+  const requests: { rowndToken: string; release: () => void }[] = [];
+  const fetch = ((url: string, init: RequestInit) => {
+    const rowndToken = new Headers(init.headers).get('X-Rownd-Token')!;
+    return new Promise<Response>(resolve => {
+      requests.push({
+        rowndToken,
+        release: () => resolve(Response.json({
+          access_token: `jwt-for-${rowndToken}`,
+          expires_at: Math.floor(Date.now() / 1000) + 3600
+        }))
+      });
+    });
+  }) as typeof globalThis.fetch;
+  return { fetch, requests };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function setup() {
+  const proxy = fakeProxy();
+  let rowndToken: string | null = 'rownd-a';
+  const exchange = createTokenExchange({
+    supabaseUrl: 'http://localhost:54321',
+    supabaseAnonKey: 'anon',
+    getAccessToken: async () => rowndToken,
+    fetch: proxy.fetch
+  });
+  return { proxy, exchange, signIn: (token: string | null) => (rowndToken = token) };
+}
+
+describe('createTokenExchange', () => {
+  it('shares one exchange between concurrent callers and caches the result', async () => {
+    const { proxy, exchange } = setup();
+
+    const first = exchange.getSupabaseToken();
+    const second = exchange.getSupabaseToken();
+    await tick();
+    expect(proxy.requests).toHaveLength(1);
+    proxy.requests[0].release();
+
+    expect(await first).toBe('jwt-for-rownd-a');
+    expect(await second).toBe('jwt-for-rownd-a');
+    expect(await exchange.getSupabaseToken()).toBe('jwt-for-rownd-a');
+    expect(proxy.requests).toHaveLength(1);
+  });
+
+  it('never hands a new identity the token minted for the previous one', async () => {
+    const { proxy, exchange, signIn } = setup();
+
+    const before = exchange.getSupabaseToken();
+    await tick();
+    signIn('rownd-b');
+    const after = exchange.getSupabaseToken();
+    await tick();
+
+    expect(proxy.requests.map(request => request.rowndToken)).toEqual(['rownd-a', 'rownd-b']);
+    proxy.requests[1].release();
+    proxy.requests[0].release();
+
+    expect(await before).toBe('jwt-for-rownd-a');
+    expect(await after).toBe('jwt-for-rownd-b');
+    expect(await exchange.getSupabaseToken()).toBe('jwt-for-rownd-b');
+    expect(proxy.requests).toHaveLength(2);
+  });
+
+  it('explains a proxy without the JWT secret', async () => {
+    const exchange = createTokenExchange({
+      supabaseUrl: 'http://localhost:54321',
+      supabaseAnonKey: 'anon',
+      getAccessToken: async () => 'rownd-a',
+      fetch: async () => Response.json({ error: 'Token exchange is not configured' }, { status: 501 })
+    });
+
+    await expect(exchange.getSupabaseToken()).rejects.toThrow(/ROWND_SUPABASE_JWT_SECRET/);
+  });
+
+  it('returns null when signed out', async () => {
+    const { exchange, signIn } = setup();
+    signIn(null);
+
+    expect(await exchange.getSupabaseToken()).toBeNull();
+  });
+});
+
+describe('the proxy\'s exchange', () => {
+  it('mints an authenticated Supabase JWT that expires with the Rownd token', async () => {
+    const proxy = createMemoryProxy();
+    const rowndToken = createMockToken('user_1', { 'https://auth.rownd.io/plan': 'pro' }, 60);
+    const exchange = createTokenExchange({
+      supabaseUrl: 'http://localhost:54321',
+      supabaseAnonKey: 'anon',
+      getAccessToken: async () => rowndToken,
+      fetch: (input, init) => proxy.handle(new Request(input, init))
+    });
+
+    const claims = jose.decodeJwt((await exchange.getSupabaseToken())!);
+    expect(claims).toMatchObject({
+      sub: 'user_1',
+      role: 'authenticated',
+      aud: 'authenticated',
+      app_metadata: { provider: 'rownd', rownd: { plan: 'pro' } }
+    });
+    expect(claims.exp).toBe(jose.decodeJwt(rowndToken).exp);
+  });
+});
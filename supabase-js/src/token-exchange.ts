@@ -0,0 +1,108 @@
+/**
+ * Rownd → Supabase Token Exchange
+ *
+ * Trades a Rownd access token for a short-lived Supabase JWT minted by the
+ * universal proxy, so PostgREST, Storage and Realtime can enforce native RLS
+ * policies against the Rownd user.
+ */
+
+export interface TokenExchangeOptions {
+  supabaseUrl: string;
+  supabaseAnonKey: string;
+  getAccessToken: (options?: { waitForToken?: boolean }) => Promise<string | null | undefined>;
+  fetch?: typeof fetch; // default: the global fetch
+}
+
+export interface TokenExchange {
+  getSupabaseToken: () => Promise<string | null>;
+}
+
+interface ExchangedToken {
+  rowndToken: string;
+  accessToken: string;
+  expiresAt: number; // Seconds since epoch
+}
+
+// Refresh the minted token this many seconds before it expires
+const REFRESH_MARGIN_SECONDS = 30;
+
+export function createTokenExchange(options: TokenExchangeOptions): TokenExchange {
+  const { supabaseUrl, supabaseAnonKey, getAccessToken, fetch: customFetch } = options;
+
+  // Exchanged and in-flight tokens are keyed by the Rownd token they were
+  // minted for, so signing in as someone else never returns the previous
+  // user's Supabase JWT
+  let current: ExchangedToken | null = null;
+  let latestRowndToken: string | null = null;
+  const pending = new Map<string, Promise<ExchangedToken>>();
+
+  const exchange = async (rowndToken: string): Promise<ExchangedToken> => {
+    // Never routed through a Supabase client's fetch, which would loop back
+    // here waiting on the exchanged token
+    const response = await (customFetch ?? fetch)(`${supabaseUrl}/functions/v1/_rownd_universal_proxy`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': supabaseAnonKey,
+        'Authorization': `Bearer ${supabaseAnonKey}`,
+        'X-Rownd-Token': rowndToken
+      },
+      body: JSON.stringify({ resource: 'auth', operation: 'exchange' })
+    });
+
+    const body = await response.json().catch(() => null);
+    if (response.status === 501) {
+      throw new Error(
+        'Token exchange is not configured on the proxy: set the ROWND_SUPABASE_JWT_SECRET secret to your project\'s JWT secret, ' +
+        'or run setup with --jwt-secret. Realtime and useRowndAuth need it.'
+      );
+    }
+    if (!response.ok || !body?.access_token) {
+      throw new Error(`Rownd token exchange failed: ${body?.error || response.statusText}`);
+    }
+
+    return {
+      rowndToken,
+      accessToken: body.access_token,
+      expiresAt: body.expires_at
+    };
+  };
+
+  return {
+    async getSupabaseToken() {
+      const rowndToken = await getAccessToken({ waitForToken: true });
+      if (!rowndToken) {
+        return null;
+      }
+
+      const now = Date.now() / 1000;
+      if (
+        current &&
+        current.rowndToken === rowndToken &&
+        current.expiresAt - REFRESH_MARGIN_SECONDS > now
+      ) {
+        return current.accessToken;
+      }
+
+      // Share one in-flight exchange between concurrent requests for the same token
+      latestRowndToken = rowndToken;
+      let exchanging = pending.get(rowndToken);
+      if (!exchanging) {
+        exchanging = exchange(rowndToken)
+          .then(token => {
+            // An exchange for a token that has since been replaced isn't cached
+            if (latestRowndToken === rowndToken) {
+              current = token;
+            }
+            return token;
+          })
+          .finally(() => {
+            pending.delete(rowndToken);
+          });
+        pending.set(rowndToken, exchanging);
+      }
+
+      return (await exchanging).accessToken;
+    }
+  };
+}
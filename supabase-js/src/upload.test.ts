@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryProxy, createMemoryProxy, createMockToken } from './memory-proxy';
+import { ProxyInvoker, uploadInChunks } from './upload';
+
+const PROXY_URL = 'http://localhost:54321/functions/v1/_rownd_universal_proxy';
+
+type Failure = { status: number; message?: string };
+
+// Calls the in-memory proxy the way the client's invokeProxy does, with
+// `fail` able to answer a request with an error instead, before or after
+// the proxy has handled it
+function connect(proxy: MemoryProxy) {
+  const calls: string[] = [];
+  let fail: (operation: string, attempt: number) => { before?: Failure; after?: Failure } | undefined = () => undefined;
+
+  const invoke: ProxyInvoker = async (body, headers = {}) => {
+    const operation = body instanceof Blob ? `chunk ${headers['X-Rownd-Chunk-Index']}` : String(body.operation);
+    calls.push(operation);
+    const failure = fail(operation, calls.filter(call => call === operation).length);
+    const error = (failed: Failure) =>
+      ({ data: null, error: Object.assign(new Error(failed.message ?? 'Failed'), { status: failed.status }) });
+
+    if (failure?.before) return error(failure.before);
+    const response = await proxy.handle(new Request(PROXY_URL, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Content-Type': body instanceof Blob ? 'application/octet-stream' : 'application/json',
+        'X-Rownd-Token': createMockToken('user_1')
+      },
+      body: body instanceof Blob ? body : JSON.stringify(body)
+    }));
+    const json = await response.json();
+    if (failure?.after) return error(failure.after);
+    return response.ok ? json : error({ status: response.status, message: json.error });
+  };
+
+  return {
+    invoke,
+    calls,
+    failWith(handler: typeof fail) {
+      fail = handler;
+    }
+  };
+}
+
+function setup() {
+  const proxy = createMemoryProxy({ buckets: { docs: {} } });
+  const stored = (path: string) => {
+    const object = proxy.buckets.docs.objects.get(`user_1/${path}`);
+    return object && new TextDecoder().decode(object.data);
+  };
+  return { proxy, stored, ...connect(proxy) };
+}
+
+const file = new Blob(['abcdefghij']);
+
+describe('uploadInChunks', () => {
+  it('uploads a file in chunks and assembles it', async () => {
+    const { invoke, calls, stored } = setup();
+    const { error } = await uploadInChunks(invoke, 'docs', 'a.txt', file, { chunkSize: 4 });
+
+    expect(error).toBeNull();
+    expect(calls).toEqual(['upload-start', 'chunk 0', 'chunk 1', 'chunk 2', 'upload-complete']);
+    expect(stored('a.txt')).toBe('abcdefghij');
+  });
+
+  it('resumes with the chunk size the upload started with', async () => {
+    const { invoke, calls, failWith, stored } = setup();
+    let uploadId = '';
+
+    failWith(operation => (operation === 'chunk 1' ? { before: { status: 400 } } : undefined));
+    const first = await uploadInChunks(invoke, 'docs', 'a.txt', file, {
+      chunkSize: 4,
+      onUploadId: id => (uploadId = id)
+    });
+    expect(first.error).toBeTruthy();
+
+    failWith(() => undefined);
+    calls.length = 0;
+    const resumed = await uploadInChunks(invoke, 'docs', 'a.txt', file, { chunkSize: 3, resumeUploadId: uploadId });
+
+    expect(resumed.error).toBeNull();
+    expect(calls).toEqual(['upload-status', 'chunk 1', 'chunk 2', 'upload-complete']);
+    expect(stored('a.txt')).toBe('abcdefghij');
+  });
+
+  it('refuses to resume an upload started for another file', async () => {
+    const { invoke, failWith } = setup();
+    let uploadId = '';
+
+    failWith(operation => (operation === 'chunk 0' ? { before: { status: 400 } } : undefined));
+    await uploadInChunks(invoke, 'docs', 'a.txt', file, { chunkSize: 4, onUploadId: id => (uploadId = id) });
+    failWith(() => undefined);
+
+    const otherPath = await uploadInChunks(invoke, 'docs', 'b.txt', file, { resumeUploadId: uploadId });
+    expect(otherPath.error.message).toMatch(/can't be resumed/);
+
+    const otherSize = await uploadInChunks(invoke, 'docs', 'a.txt', new Blob(['abc']), { resumeUploadId: uploadId });
+    expect(otherSize.error.message).toMatch(/can't be resumed/);
+  });
+
+  it('retries network and server errors but not rejected requests', async () => {
+    const { invoke, calls, failWith, stored } = setup();
+
+    failWith((operation, attempt) => (operation === 'chunk 0' && attempt === 1 ? { before: { status: 503 } } : undefined));
+    expect((await uploadInChunks(invoke, 'docs', 'a.txt', file, { chunkSize: 8 })).error).toBeNull();
+    expect(calls.filter(call => call === 'chunk 0')).toHaveLength(2);
+    expect(stored('a.txt')).toBe('abcdefghij');
+
+    calls.length = 0;
+    failWith(operation => (operation === 'chunk 0' ? { before: { status: 403 } } : undefined));
+    expect((await uploadInChunks(invoke, 'docs', 'b.txt', file, { chunkSize: 8 })).error).toBeTruthy();
+    expect(calls.filter(call => call === 'chunk 0')).toHaveLength(1);
+  });
+
+  it('reports success when only the response to complete was lost', async () => {
+    const { invoke, calls, failWith, stored } = setup();
+
+    failWith((operation, attempt) => (operation === 'upload-complete' && attempt === 1 ? { after: { status: 0 } } : undefined));
+    const { data, error } = await uploadInChunks(invoke, 'docs', 'a.txt', file, { chunkSize: 8 });
+
+    expect(error).toBeNull();
+    expect(data.path).toBe('a.txt');
+    expect(calls.filter(call => call === 'upload-complete')).toHaveLength(1);
+    expect(stored('a.txt')).toBe('abcdefghij');
+  });
+
+  it('sends complete again while the upload is still staged', async () => {
+    const { invoke, calls, failWith, stored } = setup();
+
+    failWith((operation, attempt) => (operation === 'upload-complete' && attempt === 1 ? { before: { status: 502 } } : undefined));
+    const { error } = await uploadInChunks(invoke, 'docs', 'a.txt', file, { chunkSize: 8 });
+
+    expect(error).toBeNull();
+    expect(calls.filter(call => call === 'upload-complete')).toHaveLength(2);
+    expect(stored('a.txt')).toBe('abcdefghij');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Chunked, Resumable Storage Uploads
+ *
+ * Files are sent to the universal proxy as raw binary chunks instead of one
+ * base64 JSON body, so uploads stay under Edge Function body limits. The
+ * proxy stages chunks per user and assembles them into the final object once
+ * every chunk has arrived; a failed upload can be resumed by sending only the
+ * chunks the proxy hasn't seen yet.
+ */
+
+export interface UploadProgress {
+  bytesUploaded: number;
+  bytesTotal: number;
+}
+
+export interface ChunkedUploadOptions {
+  cacheControl?: string;
+  contentType?: string;
+  upsert?: boolean;
+  chunkSize?: number; // Bytes per chunk (default: 2 MB)
+  retries?: number; // Attempts per chunk after the first failure (default: 3)
+  resumeUploadId?: string; // Resume an upload started earlier, e.g. before a page reload
+  onProgress?: (progress: UploadProgress) => void;
+  onUploadId?: (uploadId: string) => void; // Persist this to resume after a reload
+}
+
+export type ProxyInvoker = (
+  body: Blob | Record<string, unknown>,
+  headers?: Record<string, string>
+) => Promise<{ data: any; error: any }>;
+
+const DEFAULT_CHUNK_SIZE = 2 * 1024 * 1024;
+const DEFAULT_RETRIES = 3;
+const RETRY_DELAY = 500;
+
+// Uploads that failed part way, keyed by file identity, so calling upload()
+// again with the same file resumes instead of starting over
+const resumableUploads = new Map<string, string>();
+
+export async function uploadInChunks(
+  invoke: ProxyInvoker,
+  bucket: string,
+  path: string,
+  file: Blob,
+  options: ChunkedUploadOptions = {}
+): Promise<{ data: any; error: any }> {
+  const {
+    chunkSize: requestedChunkSize = DEFAULT_CHUNK_SIZE,
+    retries = DEFAULT_RETRIES,
+    resumeUploadId,
+    onProgress,
+    onUploadId,
+    ...fileOptions
+  } = options;
+
+  const resumeKey = [bucket, path, file.size, (file as File).lastModified ?? ''].join(':');
+  let uploadId = resumeUploadId || resumableUploads.get(resumeKey);
+  let chunkSize = requestedChunkSize;
+  let received: number[] = [];
+
+  if (uploadId) {
+    const status = await invoke({ resource: 'storage', operation: 'upload-status', bucket, uploadId });
+    if (status.error) {
+      // The staged upload expired or was completed elsewhere; start over
+      uploadId = undefined;
+    } else if (
+      (status.data.path !== undefined && status.data.path !== path) ||
+      (status.data.size !== undefined && status.data.size !== file.size)
+    ) {
+      resumableUploads.delete(resumeKey);
+      return {
+        data: null,
+        error: new Error(`Upload ${uploadId} was started for a different file or path, so it can't be resumed with this one`)
+      };
+    } else {
+      // Chunk offsets follow the size the upload started with, whatever this call asked for
+      received = status.data.received;
+      chunkSize = status.data.chunkSize ?? chunkSize;
+    }
+  }
+
+  if (!uploadId) {
+    const started = await invoke({
+      resource: 'storage',
+      operation: 'upload-start',
+      bucket,
+      path,
+      size: file.size,
+      chunkSize,
+      options: {
+        ...fileOptions,
+        contentType: fileOptions.contentType || file.type || undefined
+      }
+    });
+    if (started.error) return started;
+    uploadId = started.data.uploadId as string;
+  }
+
+  resumableUploads.set(resumeKey, uploadId);
+  onUploadId?.(uploadId);
+
+  const chunkCount = Math.max(1, Math.ceil(file.size / chunkSize));
+  const chunkBytes = (index: number) => Math.min(chunkSize, file.size - index * chunkSize);
+  let bytesUploaded = received.reduce((total, index) => total + chunkBytes(index), 0);
+  onProgress?.({ bytesUploaded, bytesTotal: file.size });
+
+  for (let index = 0; index < chunkCount; index++) {
+    if (received.includes(index)) continue;
+
+    const chunk = file.slice(index * chunkSize, (index + 1) * chunkSize);
+    // Chunks overwrite their slot, so sending one twice is harmless
+    const result = await withRetries(retries, () =>
+      invoke(chunk, {
+        'X-Rownd-Upload-Id': uploadId!,
+        'X-Rownd-Chunk-Index': String(index)
+      })
+    );
+    if (result.error) return result;
+
+    bytesUploaded += chunk.size;
+    onProgress?.({ bytesUploaded, bytesTotal: file.size });
+  }
+
+  const completed = await completeUpload(invoke, retries, bucket, path, uploadId);
+  if (!completed.error) {
+    resumableUploads.delete(resumeKey);
+  }
+  return completed;
+}
+
+// Completing removes the staged upload, so a complete whose response was lost
+// can't simply be sent again: retry only while the upload is still staged, and
+// otherwise report success if the object is in place
+async function completeUpload(
+  invoke: ProxyInvoker,
+  retries: number,
+  bucket: string,
+  path: string,
+  uploadId: string
+): Promise<{ data: any; error: any }> {
+  let result = await invoke({ resource: 'storage', operation: 'upload-complete', bucket, uploadId });
+  for (let retry = 0; isRetryable(result.error) && retry < retries; retry++) {
+    await backoff(retry);
+
+    const status = await invoke({ resource: 'storage', operation: 'upload-status', bucket, uploadId });
+    if (isRetryable(status.error)) continue;
+    if (status.error) {
+      const exists = await invoke({ resource: 'storage', operation: 'exists', bucket, path });
+      return exists.data === true ? { data: { path }, error: null } : result;
+    }
+
+    result = await invoke({ resource: 'storage', operation: 'upload-complete', bucket, uploadId });
+  }
+  return result;
+}
+
+async function withRetries(
+  retries: number,
+  attempt: () => Promise<{ data: any; error: any }>
+): Promise<{ data: any; error: any }> {
+  let result = await attempt();
+  for (let retry = 0; isRetryable(result.error) && retry < retries; retry++) {
+    await backoff(retry);
+    result = await attempt();
+  }
+  return result;
+}
+
+// Network failures (status 0) and server errors may pass; a rejected request won't
+function isRetryable(error: any): boolean {
+  return error != null && (error.status === 0 || error.status >= 500);
+}
+
+function backoff(retry: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, RETRY_DELAY * 2 ** retry));
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // supabase-js needs a global WebSocket, which Node 20 hides behind a flag
+    poolOptions: { forks: { execArgv: ['--experimental-websocket'] } }
+  }
+});
@@ -13,9 +13,27 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import * as jose from 'https://deno.land/x/jose@v4.14.4/index.ts'
 
 const ROWND_JWKS_URL = 'https://api.rownd.io/hub/auth/keys'
+
+// Protocol spoken by this proxy; bumped when a change would break clients
+// built against an older one. Clients check it on health before their first
+// call, and `rownd-supabase upgrade` compares the build and policy
+// fingerprints, which getProxyFunctionCode() fills in, with the package's.
+const PROXY_PROTOCOL_VERSION = 1
+const PROXY_CAPABILITIES = [
+  'database', 'rpc', 'storage', 'storage-buckets', 'chunked-upload', 'realtime-authorize', 'token-exchange',
+]
+const PROXY_BUILD = 'development'
+const PROXY_POLICY_HASH = 'development'
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-rownd-token',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, range, x-rownd-token, x-rownd-upload-id, x-rownd-chunk-index',
+  'Access-Control-Expose-Headers': 'content-length, content-range, accept-ranges, etag, x-rownd-proxy-protocol, x-rownd-proxy-build, x-rownd-proxy-policy',
+  // Sent on every response, including errors, so a stale deployment can be
+  // spotted without a Rownd token
+  'X-Rownd-Proxy-Protocol': String(PROXY_PROTOCOL_VERSION),
+  'X-Rownd-Proxy-Build': PROXY_BUILD,
+  'X-Rownd-Proxy-Policy': PROXY_POLICY_HASH,
 }
 
 // Cache for Rownd's public keys
@@ -23,6 +41,57 @@ let jwksCache: jose.JSONWebKeySet | null = null
 let jwksCacheTime = 0
 const JWKS_CACHE_DURATION = 3600000 // 1 hour
 
+// Key used to verify tokens; see getVerificationKey()
+let verificationKey: jose.KeyLike | jose.JWTVerifyGetKey | null = null
+
+// Query wire format understood by this proxy (see supabase-js/src/query.ts)
+const QUERY_WIRE_VERSION = 1
+
+// Builder methods a client query is allowed to replay
+const FILTER_METHODS = new Set([
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+  'like', 'likeAllOf', 'likeAnyOf', 'ilike', 'ilikeAllOf', 'ilikeAnyOf',
+  'regexMatch', 'regexIMatch', 'is', 'isDistinct', 'in', 'notIn',
+  'contains', 'containedBy', 'rangeGt', 'rangeGte', 'rangeLt', 'rangeLte',
+  'rangeAdjacent', 'overlaps', 'textSearch', 'match', 'not', 'or', 'filter',
+])
+const MODIFIER_METHODS = new Set([
+  'select', 'order', 'limit', 'range',
+  'single', 'maybeSingle', 'csv', 'geojson', 'explain',
+])
+
+// Access policy for tables, functions and storage. Generated by
+// getProxyFunctionCode() in @rownd/supabase-js; edit it there rather than by hand.
+const ACCESS_POLICY = {"defaults":{"ownerColumn":"user_id"},"tables":{}}
+const DEFAULT_TABLE_POLICY = { ownerColumn: 'user_id' }
+
+// Chunked uploads are staged per user in a private bucket until complete
+const UPLOAD_BUCKET = Deno.env.get('ROWND_UPLOAD_BUCKET') || 'rownd-uploads'
+const MAX_CHUNK_SIZE = 5 * 1024 * 1024 // 5 MB
+const UPLOAD_TTL = 24 * 60 * 60 * 1000 // Staged uploads expire after a day
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+let uploadBucketReady = false
+const DEFAULT_MAX_SIGNED_URL_EXPIRY = 604800 // 1 week
+
+// Count strategies PostgREST accepts on rpc calls
+const RPC_COUNT_OPTIONS = ['exact', 'planned', 'estimated']
+
+// Rownd-specific claims are namespaced, e.g. https://auth.rownd.io/is_verified_user
+const ROWND_CLAIM_PREFIX = 'https://auth.rownd.io/'
+const DEFAULT_SUPABASE_JWT_TTL = 300 // 5 minutes
+const DEFAULT_ROLES_CLAIM = `${ROWND_CLAIM_PREFIX}roles`
+
+class ProxyError extends Error {
+  status: number
+  code?: string
+
+  constructor(message: string, status = 400, code?: string) {
+    super(message)
+    this.status = status
+    this.code = code
+  }
+}
+
 async function getRowndKeys(): Promise<jose.JSONWebKeySet> {
   const now = Date.now()
   if (jwksCache && now - jwksCacheTime < JWKS_CACHE_DURATION) {
@@ -39,12 +108,85 @@ async function getRowndKeys(): Promise<jose.JSONWebKeySet> {
   return jwksCache!
 }
 
+// Tests and CI can verify tokens offline by setting ROWND_JWKS (an inline
+// JWKS), ROWND_PUBLIC_KEY (a PEM public key, with ROWND_PUBLIC_KEY_ALG
+// defaulting to RS256) or ROWND_KEY_PATH (a file holding either). Otherwise
+// keys come from Rownd's JWKS endpoint.
+async function getVerificationKey(): Promise<jose.KeyLike | jose.JWTVerifyGetKey> {
+  if (verificationKey) {
+    return verificationKey
+  }
+
+  const keyPath = Deno.env.get('ROWND_KEY_PATH')
+  const source = Deno.env.get('ROWND_JWKS') || Deno.env.get('ROWND_PUBLIC_KEY') ||
+    (keyPath ? await Deno.readTextFile(keyPath) : '')
+
+  if (!source.trim()) {
+    verificationKey = jose.createRemoteJWKSet(new URL(ROWND_JWKS_URL))
+  } else if (source.trim().startsWith('-----BEGIN')) {
+    verificationKey = await jose.importSPKI(source.trim(), Deno.env.get('ROWND_PUBLIC_KEY_ALG') || 'RS256')
+  } else {
+    verificationKey = jose.createLocalJWKSet(JSON.parse(source))
+  }
+  return verificationKey
+}
+
+// GET <function URL>/health reports whether the proxy can serve requests,
+// without a Rownd token, for monitoring and deploy checks. Responds 503 when
+// a dependency is down. Shares its shape with the authenticated health
+// operation, minus the caller and plus the dependency checks.
+async function handleHealthCheck() {
+  const [jwks, supabase] = await Promise.all([checkJwks(), checkSupabase()])
+  const ready = jwks.ok && supabase.ok
+  return new Response(
+    JSON.stringify({
+      status: ready ? 'ok' : 'degraded',
+      protocol: PROXY_PROTOCOL_VERSION,
+      wireVersions: [QUERY_WIRE_VERSION],
+      capabilities: PROXY_CAPABILITIES,
+      build: PROXY_BUILD,
+      policyHash: PROXY_POLICY_HASH,
+      checks: { jwks, supabase },
+    }),
+    { status: ready ? 200 : 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  )
+}
+
+// Locally configured keys are loaded; Rownd's JWKS is fetched, at most once
+// per cache period so frequent probes don't add load
+async function checkJwks() {
+  const local = Deno.env.get('ROWND_JWKS') || Deno.env.get('ROWND_PUBLIC_KEY') || Deno.env.get('ROWND_KEY_PATH')
+  try {
+    if (local) {
+      await getVerificationKey()
+      return { ok: true, source: 'local' }
+    }
+    const { keys } = await getRowndKeys()
+    return { ok: keys.length > 0, source: ROWND_JWKS_URL, keys: keys.length, fetchedAt: new Date(jwksCacheTime).toISOString() }
+  } catch (error) {
+    return { ok: false, source: local ? 'local' : ROWND_JWKS_URL, error: error.message }
+  }
+}
+
+async function checkSupabase() {
+  const started = Date.now()
+  try {
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/rest/v1/`, {
+      headers: { apikey: serviceKey, Authorization: `Bearer ${serviceKey}` },
+    })
+    await response.body?.cancel()
+    return response.ok
+      ? { ok: true, latencyMs: Date.now() - started }
+      : { ok: false, latencyMs: Date.now() - started, error: `PostgREST responded ${response.status}` }
+  } catch (error) {
+    return { ok: false, error: error.message }
+  }
+}
+
 async function validateRowndToken(token: string): Promise<{ userId: string; payload: any }> {
   try {
-    const jwks = await getRowndKeys()
-    const JWKS = jose.createRemoteJWKSet(new URL(ROWND_JWKS_URL))
-    
-    const { payload } = await jose.jwtVerify(token, JWKS, {
+    const { payload } = await jose.jwtVerify(token, await getVerificationKey(), {
       issuer: 'https://api.rownd.io',
       audience: 'https://api.rownd.io',
     })
@@ -62,27 +204,615 @@ async function validateRowndToken(token: string): Promise<{ userId: string; payl
   }
 }
 
+// Find the Rownd token in the places allowed by the policy's token settings,
+// checked in order: header, bearer, cookie, query parameter
+function extractToken(req: Request) {
+  const options = ACCESS_POLICY.token ?? {}
+  const header = options.header ?? 'x-rownd-token'
+  if (header) {
+    const token = req.headers.get(header)
+    if (token) return { token, source: 'header' }
+  }
+
+  // Supabase clients send the anon key as the bearer token, so only claim
+  // bearer tokens that Rownd issued
+  if (options.bearer) {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('authorization') || '')
+    if (match && isRowndToken(match[1])) return { token: match[1], source: 'bearer' }
+  }
+
+  if (options.cookie) {
+    for (const cookie of (req.headers.get('cookie') || '').split(';')) {
+      const [key, ...value] = cookie.trim().split('=')
+      if (key === options.cookie) return { token: decodeURIComponent(value.join('=')), source: 'cookie' }
+    }
+  }
+
+  // Tokens in URLs end up in access logs; only use this where headers can't be set
+  if (options.query) {
+    const token = new URL(req.url).searchParams.get(options.query)
+    if (token) return { token, source: 'query' }
+  }
+
+  return null
+}
+
+function isRowndToken(token: string) {
+  try {
+    return jose.decodeJwt(token).iss === 'https://api.rownd.io'
+  } catch {
+    return false
+  }
+}
+
+// Sign a short-lived Supabase JWT for the Rownd user so PostgREST, Storage
+// and Realtime can apply native RLS policies (auth.uid(), auth.jwt())
+async function mintSupabaseToken(userId: string, payload: any) {
+  const jwtSecret = Deno.env.get('ROWND_SUPABASE_JWT_SECRET')
+  if (!jwtSecret) {
+    throw new ProxyError('Token exchange is not configured: set the ROWND_SUPABASE_JWT_SECRET secret', 501)
+  }
+
+  const rowndClaims: Record<string, unknown> = {}
+  for (const [claim, value] of Object.entries(payload)) {
+    if (claim.startsWith(ROWND_CLAIM_PREFIX)) {
+      rowndClaims[claim.slice(ROWND_CLAIM_PREFIX.length)] = value
+    }
+  }
+
+  // Never outlive the Rownd token the JWT was minted from
+  const now = Math.floor(Date.now() / 1000)
+  const ttl = Number(Deno.env.get('ROWND_SUPABASE_JWT_TTL') || DEFAULT_SUPABASE_JWT_TTL)
+  const expiresAt = Math.min(now + ttl, payload.exp ?? Infinity)
+
+  const accessToken = await new jose.SignJWT({
+    role: 'authenticated',
+    email: payload.email,
+    app_metadata: { provider: 'rownd', rownd: rowndClaims },
+    user_metadata: {},
+  })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setSubject(userId)
+    .setAudience('authenticated')
+    .setIssuer('rownd')
+    .setIssuedAt(now)
+    .setExpirationTime(expiresAt)
+    .sign(new TextEncoder().encode(jwtSecret))
+
+  return {
+    access_token: accessToken,
+    token_type: 'bearer',
+    expires_in: expiresAt - now,
+    expires_at: expiresAt,
+  }
+}
+
+// A client that runs as the Rownd user's minted Supabase JWT, so RLS
+// policies apply instead of the service role
+async function createUserClient(supabaseUrl: string, userId: string, payload: any) {
+  const { access_token } = await mintSupabaseToken(userId, payload)
+  return createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: `Bearer ${access_token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+// Look a claim up by its full name, falling back to the Rownd namespace
+function getClaim(payload: any, claim: string) {
+  if (claim in payload) return payload[claim]
+  return payload[`${ROWND_CLAIM_PREFIX}${claim}`]
+}
+
+function getRoles(payload: any) {
+  const roles = getClaim(payload, ACCESS_POLICY.rolesClaim ?? DEFAULT_ROLES_CLAIM)
+  if (Array.isArray(roles)) return roles.map(String)
+  if (typeof roles === 'string') return roles.split(/[\s,]+/).filter(Boolean)
+  return []
+}
+
+function hasVerifiedEmail(payload: any) {
+  if (!payload.email) return false
+  return payload.email_verified === true || getClaim(payload, 'is_verified_user') === true
+}
+
+// The same guards serve() offers in @rownd/supabase-edge, applied per table
+// and per function
+function assertGuards(payload: any, policy: any) {
+  for (const [claim, value] of Object.entries(policy.requireClaims || {})) {
+    if (getClaim(payload, claim) !== value) {
+      throw new ProxyError(`Missing required claim: ${claim}`, 403, 'missing_claim')
+    }
+  }
+
+  if (policy.requireRoles?.length) {
+    const roles = getRoles(payload)
+    const missing = policy.requireRoles.filter((role: string) => !roles.includes(role))
+    if (missing.length > 0) {
+      throw new ProxyError(`Missing required role: ${missing.join(', ')}`, 403, 'missing_role')
+    }
+  }
+
+  if (policy.requireVerifiedEmail && !hasVerifiedEmail(payload)) {
+    throw new ProxyError('A verified email address is required', 403, 'email_not_verified')
+  }
+}
+
+// Postgres functions are only callable when listed in the policy
+function getFunctionPolicy(functionName: string) {
+  const functionPolicy = ACCESS_POLICY.functions?.[functionName]
+  if (!functionPolicy) {
+    throw new ProxyError(`Function ${functionName} is not allowed`, 403)
+  }
+  return functionPolicy
+}
+
+// Pass the caller's arguments through, with the Rownd user ID written into
+// the configured parameter so it can't be spoofed
+function prepareRpcArgs(policy: any, args: any, userId: string) {
+  if (args != null && (typeof args !== 'object' || Array.isArray(args))) {
+    throw new ProxyError('RPC arguments must be an object')
+  }
+  return policy.userIdParam ? { ...args, [policy.userIdParam]: userId } : { ...args }
+}
+
+function prepareRpcOptions(options: any) {
+  const { head, get, count } = options ?? {}
+  if (count != null && !RPC_COUNT_OPTIONS.includes(count)) {
+    throw new ProxyError(`Invalid count option: ${count}`)
+  }
+  return { head: Boolean(head), get: Boolean(get), count: count ?? undefined }
+}
+
+// Merge the table's policy over the defaults
+function getTablePolicy(table: string) {
+  const tablePolicy = ACCESS_POLICY.tables?.[table]
+  if (!tablePolicy && ACCESS_POLICY.strict) {
+    throw new ProxyError(`Access to table ${table} is not allowed`, 403)
+  }
+  return { ...DEFAULT_TABLE_POLICY, ...ACCESS_POLICY.defaults, ...tablePolicy }
+}
+
+function assertOperationAllowed(policy: any, table: string, operation: string) {
+  const allowed = policy.readOnly ? ['select'] : policy.operations
+  if (allowed && !allowed.includes(operation)) {
+    throw new ProxyError(`Operation ${operation} is not allowed on table ${table}`, 403)
+  }
+}
+
+// Strip casts (col::text), aliases (alias:col), JSON paths (col->>key) and quotes
+function baseColumn(column: string): string {
+  const withoutCast = String(column).split('::')[0]
+  const target = withoutCast.split(':').pop()!
+  return target.split(/->>?/)[0].trim().replace(/^"|"$/g, '')
+}
+
+function assertColumnsAllowed(policy: any, columns: string[]) {
+  if (!policy.columns) return
+  for (const column of columns) {
+    if (!policy.columns.includes(baseColumn(column))) {
+      throw new ProxyError(`Column ${column} is not allowed`, 403)
+    }
+  }
+}
+
+// Column of every condition in an or() filter, e.g. "a.eq.1,not.b.gt.2,and(c.is.null)",
+// looking through not. prefixes and nested and()/or() groups
+function orFilterColumns(filters: string): string[] {
+  return splitConditions(String(filters)).flatMap(condition => {
+    const negated = condition.replace(/^not\./, '')
+    const group = negated.match(/^(?:and|or)\((.*)\)$/s)
+    if (group) return orFilterColumns(group[1])
+    return [negated.split('.')[0]]
+  })
+}
+
+// Split filter conditions on the commas outside parentheses and quoted values
+function splitConditions(filters: string): string[] {
+  const conditions: string[] = []
+  let depth = 0
+  let quoted = false
+  let current = ''
+  for (let i = 0; i < filters.length; i++) {
+    const char = filters[i]
+    if (quoted && char === '\\') {
+      current += char + (filters[++i] ?? '')
+      continue
+    }
+    if (char === '"') quoted = !quoted
+    if (!quoted && char === ',' && depth === 0) {
+      conditions.push(current)
+      current = ''
+      continue
+    }
+    if (!quoted && char === '(') depth++
+    if (!quoted && char === ')') depth--
+    current += char
+  }
+  conditions.push(current)
+  return conditions.map(condition => condition.trim()).filter(Boolean)
+}
+
+// Split a select list on the commas outside embedded resources
+function splitSelect(columns: string): string[] {
+  const entries: string[] = []
+  let depth = 0
+  let current = ''
+  for (const char of String(columns)) {
+    if (char === ',' && depth === 0) {
+      entries.push(current)
+      current = ''
+      continue
+    }
+    if (char === '(') depth++
+    if (char === ')') depth--
+    current += char
+  }
+  entries.push(current)
+  return entries.map(entry => entry.trim()).filter(Boolean)
+}
+
+// Embedded resources in a select list, e.g. "id, author:profiles!author_id(name)"
+// embeds profiles as author
+function embeddedResources(columns = '*') {
+  return splitSelect(columns).flatMap(entry => {
+    const match = /^(?:\.\.\.)?(?:([^:(]+):)?([^!(]+)(?:![^(]*)?\((.*)\)$/s.exec(entry)
+    return match ? [{ alias: match[1]?.trim(), table: match[2].trim(), columns: match[3] }] : []
+  })
+}
+
+// Only tables listed in the policy's embeds can be embedded, since the service
+// role would otherwise return every user's related rows. Apply the column
+// allowlist to the rest of the select list; '*' expands to the allowlist.
+function restrictSelect(policy: any, columns?: string) {
+  const embeds = embeddedResources(columns)
+  for (const { table } of embeds) {
+    if (!policy.embeds?.includes(table)) {
+      throw new ProxyError(`Embedding ${table} is not allowed on this table`, 403)
+    }
+  }
+
+  if (!policy.columns) return columns
+  if (!columns || columns.trim() === '*') return policy.columns.join(',')
+  const plain = splitSelect(columns).filter(entry => !entry.endsWith(')'))
+  assertColumnsAllowed(policy, plain.filter(column => column !== '*'))
+  return [
+    ...plain.flatMap(column => (column === '*' ? policy.columns : [column])),
+    ...splitSelect(columns).filter(entry => entry.endsWith(')')),
+  ].join(',')
+}
+
+// Hold each embedded table to its own policy and scope its rows to the caller,
+// as if it were queried directly
+function scopeEmbeds(builder: any, query: any, payload: any, userId: string) {
+  const selects = query.chain.filter(({ method }) => method === 'select').map(({ args }) => args[0])
+  if (query.operation === 'select') selects.push(query.args[0])
+
+  for (const embed of selects.flatMap((columns: string) => embeddedResources(columns))) {
+    const policy = getTablePolicy(embed.table)
+    assertOperationAllowed(policy, embed.table, 'select')
+    assertGuards(payload, policy)
+    if (embeddedResources(embed.columns).length > 0) {
+      throw new ProxyError(`Resources embedded in ${embed.table} are not allowed`, 403)
+    }
+    if (policy.columns) {
+      assertColumnsAllowed(policy, splitSelect(embed.columns))
+    }
+    if (policy.ownerColumn && !policy.public) {
+      builder = builder.eq(`${embed.alias ?? embed.table}.${policy.ownerColumn}`, userId)
+    }
+  }
+  return builder
+}
+
+// Check every column a replayed filter or modifier touches against the allowlist
+function assertQueryAllowed(policy: any, query: any) {
+  for (const { method, args } of query.chain) {
+    const options = args[args.length - 1]
+    const referenced = options && typeof options === 'object' && (options.referencedTable || options.foreignTable)
+    if (referenced && !policy.embeds?.includes(referenced)) {
+      throw new ProxyError(`Referenced table ${referenced} is not allowed on this table`, 403)
+    }
+
+    if (method === 'select') {
+      restrictSelect(policy, args[0] ?? '*')
+    } else if (!policy.columns) {
+      continue
+    } else if (method === 'match') {
+      assertColumnsAllowed(policy, Object.keys(args[0] ?? {}))
+    } else if (method === 'or') {
+      assertColumnsAllowed(policy, orFilterColumns(args[0]))
+    } else if (FILTER_METHODS.has(method) || method === 'order') {
+      assertColumnsAllowed(policy, [args[0]])
+    }
+  }
+}
+
+// Constrain a builder to the caller's rows; public tables are readable by everyone
+function scopeToOwner(builder: any, policy: any, operation: string, userId: string) {
+  if (!policy.ownerColumn || (operation === 'select' && policy.public)) {
+    return builder
+  }
+  return builder.eq(policy.ownerColumn, userId)
+}
+
+// Force ownership and configured column values onto inserted rows
+function prepareRows(policy: any, values: any, userId: string) {
+  const forced: Record<string, unknown> = {}
+  for (const [column, value] of Object.entries(policy.insertValues ?? {})) {
+    forced[column] = value === '$userId' ? userId : value
+  }
+  if (policy.ownerColumn) {
+    forced[policy.ownerColumn] = userId
+  }
+
+  const rows = (Array.isArray(values) ? values : [values]).map((row: any) => {
+    assertColumnsAllowed(policy, Object.keys(row ?? {}).filter(column => !(column in forced)))
+    return { ...row, ...forced }
+  })
+  return Array.isArray(values) ? rows : rows[0]
+}
+
+function prepareChanges(policy: any, values: any, userId: string) {
+  if (policy.ownerColumn && policy.ownerColumn in (values ?? {}) && values[policy.ownerColumn] !== userId) {
+    throw new ProxyError(`Column ${policy.ownerColumn} cannot be reassigned`, 403)
+  }
+  assertColumnsAllowed(policy, Object.keys(values ?? {}).filter(column => column !== policy.ownerColumn))
+  return values
+}
+
+// Resolve a client path inside the caller's folder, refusing to escape it
+function userPath(userId: string, path = '') {
+  const segments = String(path).split('/')
+  if (segments.some(segment => segment === '..' || segment === '.')) {
+    throw new ProxyError(`Invalid storage path: ${path}`)
+  }
+  return `${userId}/${segments.filter(Boolean).join('/')}`
+}
+
+function signedUrlExpiry(expiresIn: number) {
+  const max = ACCESS_POLICY.storage?.maxSignedUrlExpiresIn ?? DEFAULT_MAX_SIGNED_URL_EXPIRY
+  if (!Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > max) {
+    throw new ProxyError(`expiresIn must be between 1 and ${max} seconds`)
+  }
+  return expiresIn
+}
+
+// Bucket management affects every user's files, so it needs the admin claim
+// named by the storage policy, set to true in the Rownd token
+function assertStorageAdmin(payload: any, operation: string) {
+  const claim = ACCESS_POLICY.storage?.adminClaim
+  if (!claim || getClaim(payload, claim) !== true) {
+    throw new ProxyError(`Storage operation ${operation} requires an admin token`, 403)
+  }
+}
+
+// Headers relayed from Storage on streamed downloads
+const DOWNLOAD_HEADERS = [
+  'content-type', 'content-length', 'content-range', 'accept-ranges',
+  'etag', 'last-modified', 'cache-control',
+]
+
+// Stream an object straight from Storage, honoring the client's Range header,
+// instead of buffering and base64-encoding it
+async function streamDownload(req: Request, userId: string, bucket: string, path: string, options: any) {
+  const objectPath = [bucket, ...userPath(userId, path).split('/')].map(encodeURIComponent).join('/')
+  const url = new URL(
+    options?.transform
+      ? `/storage/v1/render/image/authenticated/${objectPath}`
+      : `/storage/v1/object/authenticated/${objectPath}`,
+    Deno.env.get('SUPABASE_URL')
+  )
+  for (const [key, value] of Object.entries(options?.transform ?? {})) {
+    url.searchParams.set(key, String(value))
+  }
+
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  const headers = new Headers({ apikey: serviceKey, Authorization: `Bearer ${serviceKey}` })
+  const range = req.headers.get('range')
+  if (range) headers.set('Range', range)
+
+  const upstream = await fetch(url, { headers })
+  if (!upstream.ok) {
+    const error = await upstream.json().catch(() => ({ message: upstream.statusText }))
+    return new Response(
+      JSON.stringify({ error: error.message || error.error || upstream.statusText }),
+      { status: upstream.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  const responseHeaders = new Headers(corsHeaders)
+  for (const name of DOWNLOAD_HEADERS) {
+    const value = upstream.headers.get(name)
+    if (value) responseHeaders.set(name, value)
+  }
+  return new Response(upstream.body, { status: upstream.status, headers: responseHeaders })
+}
+
+async function ensureUploadBucket(supabase: any) {
+  if (uploadBucketReady) return
+  const { error } = await supabase.storage.createBucket(UPLOAD_BUCKET, { public: false })
+  if (error && !/already exists/i.test(error.message)) {
+    throw new ProxyError(`Failed to create upload bucket: ${error.message}`, 500)
+  }
+  uploadBucketReady = true
+}
+
+// Staged uploads live under the caller's user ID, so an upload ID is useless
+// to anyone else. Expired ones are removed when next read.
+async function readUploadManifest(supabase: any, userId: string, uploadId: string) {
+  if (!UPLOAD_ID_PATTERN.test(String(uploadId))) {
+    throw new ProxyError(`Invalid upload ID: ${uploadId}`)
+  }
+
+  const { data, error } = await supabase.storage
+    .from(UPLOAD_BUCKET)
+    .download(`${userId}/${uploadId}/manifest.json`)
+  if (error) {
+    throw new ProxyError(`Unknown upload: ${uploadId}`, 404)
+  }
+
+  const manifest = JSON.parse(await data.text())
+  if (!(Date.now() - Date.parse(manifest.createdAt) < UPLOAD_TTL)) {
+    await removeUpload(supabase, userId, uploadId)
+    throw new ProxyError(`Upload ${uploadId} has expired`, 410)
+  }
+  return manifest
+}
+
+async function removeUpload(supabase: any, userId: string, uploadId: string) {
+  const folder = `${userId}/${uploadId}`
+  const { data } = await supabase.storage.from(UPLOAD_BUCKET).list(folder, { limit: 10000 })
+  if (data?.length) {
+    await supabase.storage.from(UPLOAD_BUCKET).remove(data.map((file: any) => `${folder}/${file.name}`))
+  }
+}
+
+// Clear out the caller's uploads that were abandoned before completing
+async function removeExpiredUploads(supabase: any, userId: string) {
+  const { data } = await supabase.storage.from(UPLOAD_BUCKET).list(userId, { limit: 1000 })
+  for (const { name } of data ?? []) {
+    await readUploadManifest(supabase, userId, name).catch(() => {})
+  }
+}
+
+async function receivedChunks(supabase: any, userId: string, uploadId: string): Promise<number[]> {
+  const { data, error } = await supabase.storage
+    .from(UPLOAD_BUCKET)
+    .list(`${userId}/${uploadId}`, { limit: 10000 })
+  if (error) throw new ProxyError(error.message, 500)
+  return data
+    .map((file: any) => file.name)
+    .filter((name: string) => /^\d+$/.test(name))
+    .map(Number)
+    .sort((a: number, b: number) => a - b)
+}
+
+function chunkCount(manifest: any) {
+  return Math.max(1, Math.ceil(manifest.size / manifest.chunkSize))
+}
+
+// Stream the staged chunks, in order, into the destination object
+function assembleChunks(supabase: any, userId: string, uploadId: string, manifest: any) {
+  let index = 0
+  return new ReadableStream({
+    async pull(controller) {
+      if (index === chunkCount(manifest)) {
+        controller.close()
+        return
+      }
+      const { data, error } = await supabase.storage
+        .from(UPLOAD_BUCKET)
+        .download(`${userId}/${uploadId}/${index}`)
+      if (error) {
+        controller.error(error)
+        return
+      }
+      controller.enqueue(new Uint8Array(await data.arrayBuffer()))
+      index++
+    },
+  })
+}
+
+function parseQuery(query: any) {
+  if (!query || query.version !== QUERY_WIRE_VERSION) {
+    throw new ProxyError(`Unsupported query wire format version: ${query?.version}`)
+  }
+  if (!Array.isArray(query.args) || !Array.isArray(query.chain)) {
+    throw new ProxyError('Malformed query')
+  }
+  for (const call of query.chain) {
+    if (!call || typeof call.method !== 'string' || !Array.isArray(call.args)) {
+      throw new ProxyError('Malformed query: chained calls need a method name and an args array')
+    }
+  }
+  return query
+}
+
+// Replay the client's recorded filters and modifiers, in order, on a real builder
+function replayQuery(builder: any, query: any, policy: any) {
+  for (const { method, args } of query.chain) {
+    if (!FILTER_METHODS.has(method) && !MODIFIER_METHODS.has(method)) {
+      throw new ProxyError(`Unsupported query method: ${method}`)
+    }
+    builder = method === 'select'
+      ? builder.select(restrictSelect(policy, args[0]), ...args.slice(1))
+      : builder[method](...args)
+  }
+  return builder
+}
+
+// Refuse update/delete without a filter so a bare .update() can't rewrite
+// every row the caller owns, unless the table explicitly allows it
+function assertFiltered(policy: any, table: string, operation: string, query: any) {
+  const filtered = query.chain.some(({ method }) => FILTER_METHODS.has(method))
+  if (!filtered && !policy.allowUnfilteredMutations) {
+    throw new ProxyError(`Refusing to ${operation} ${table} without filters`)
+  }
+}
+
+// An upsert that conflicts with another user's row would otherwise hand that
+// row to the caller, since the service role bypasses RLS. Every row must carry
+// the named conflict columns so the row it would overwrite can be checked.
+async function assertUpsertOwnership(supabase: any, policy: any, table: string, rows: any, options: any, userId: string) {
+  if (!policy.ownerColumn) return
+  if (!options?.onConflict) {
+    throw new ProxyError(`Upserts on ${table} must set onConflict`)
+  }
+  const conflictColumns = String(options.onConflict).split(',').map((column: string) => column.trim())
+
+  for (const row of Array.isArray(rows) ? rows : [rows]) {
+    const missing = conflictColumns.filter((column: string) => row?.[column] === undefined)
+    if (missing.length > 0) {
+      throw new ProxyError(`Upsert rows must include the onConflict column ${missing.join(', ')}`)
+    }
+
+    const match = Object.fromEntries(conflictColumns.map((column: string) => [column, row[column]]))
+    const { data, error } = await supabase.from(table).select(policy.ownerColumn).match(match)
+    if (error) throw new ProxyError(error.message, 500)
+    if (data.some((existing: any) => existing[policy.ownerColumn] !== userId)) {
+      throw new ProxyError(`Row in ${table} belongs to another user`, 403)
+    }
+  }
+}
+
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
   }
 
+  if (req.method === 'GET' && new URL(req.url).pathname.endsWith('/health')) {
+    return handleHealthCheck()
+  }
+
   try {
-    // Get token from header
-    const token = req.headers.get('x-rownd-token')
-    if (!token) {
+    // Get token from the configured sources
+    const found = extractToken(req)
+    if (!found) {
       return new Response(
-        JSON.stringify({ error: 'Missing X-Rownd-Token header' }),
+        JSON.stringify({ error: ACCESS_POLICY.token ? 'Missing Rownd token' : 'Missing X-Rownd-Token header' }),
         { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
     // Validate token
-    const { userId } = await validateRowndToken(token)
+    const { userId, payload } = await validateRowndToken(found.token)
 
-    // Parse request body
-    const body = await req.json()
+    // Parse request body; upload chunks are raw binary described by headers
+    const uploadId = req.headers.get('x-rownd-upload-id')
+    const body = uploadId
+      ? {
+          resource: 'storage',
+          operation: 'upload-chunk',
+          uploadId,
+          index: Number(req.headers.get('x-rownd-chunk-index')),
+        }
+      : await req.json().catch(() => {
+          throw new ProxyError('Malformed JSON body')
+        })
+    if (body === null || typeof body !== 'object') {
+      throw new ProxyError('Request body must be a JSON object')
+    }
     const { resource, operation } = body
 
     // Create Supabase client
@@ -93,56 +823,163 @@ serve(async (req) => {
     // Handle health check
     if (resource === 'health') {
       return new Response(
-        JSON.stringify({ status: 'ok', userId }),
+        JSON.stringify({
+          status: 'ok',
+          userId,
+          tokenSource: found.source,
+          protocol: PROXY_PROTOCOL_VERSION,
+          wireVersions: [QUERY_WIRE_VERSION],
+          capabilities: PROXY_CAPABILITIES,
+          build: PROXY_BUILD,
+          policyHash: PROXY_POLICY_HASH,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Exchange the Rownd token for a Supabase JWT
+    if (resource === 'auth') {
+      if (operation !== 'exchange') {
+        throw new ProxyError(`Unknown auth operation: ${operation}`)
+      }
+
+      return new Response(
+        JSON.stringify(await mintSupabaseToken(userId, payload)),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Tell the client which ownership filter to put on a postgres_changes
+    // subscription; rows are also protected by RLS via the exchanged JWT
+    if (resource === 'realtime') {
+      if (operation !== 'authorize') {
+        throw new ProxyError(`Unknown realtime operation: ${operation}`)
+      }
+
+      const { table } = body
+      const policy = getTablePolicy(table)
+      assertOperationAllowed(policy, table, 'select')
+      assertGuards(payload, policy)
+
+      return new Response(
+        JSON.stringify({
+          userId,
+          ownerColumn: policy.public ? null : policy.ownerColumn ?? null,
+        }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
     // Handle database operations
     if (resource === 'database') {
-      const { table, query } = body
+      const { table } = body
+      if (typeof table !== 'string' || !table) {
+        throw new ProxyError('Database requests must name a table')
+      }
+      const query = parseQuery(body.query)
+      const policy = getTablePolicy(table)
+      assertOperationAllowed(policy, table, operation)
+      assertGuards(payload, policy)
+      assertQueryAllowed(policy, query)
       let result
 
       switch (operation) {
-        case 'select':
-          result = await supabase
-            .from(table)
-            .select(query.select || '*')
-            .eq('user_id', userId)
+        case 'select': {
+          const [columns, options] = query.args
+          result = await replayQuery(
+            scopeEmbeds(
+              scopeToOwner(
+                supabase.from(table).select(restrictSelect(policy, columns), options),
+                policy,
+                operation,
+                userId
+              ),
+              query,
+              payload,
+              userId
+            ),
+            query,
+            policy
+          )
           break
+        }
 
-        case 'insert':
-          result = await supabase
-            .from(table)
-            .insert({ ...body.data, user_id: userId })
+        case 'insert': {
+          const [values, options] = query.args
+          result = await replayQuery(
+            scopeEmbeds(
+              supabase.from(table).insert(prepareRows(policy, values, userId), options),
+              query,
+              payload,
+              userId
+            ),
+            query,
+            policy
+          )
           break
+        }
 
-        case 'update':
-          result = await supabase
-            .from(table)
-            .update(body.data)
-            .eq('user_id', userId)
-            .eq('id', body.id)
+        case 'update': {
+          const [values, options] = query.args
+          assertFiltered(policy, table, operation, query)
+          result = await replayQuery(
+            scopeEmbeds(
+              scopeToOwner(
+                supabase.from(table).update(prepareChanges(policy, values, userId), options),
+                policy,
+                operation,
+                userId
+              ),
+              query,
+              payload,
+              userId
+            ),
+            query,
+            policy
+          )
           break
+        }
 
-        case 'delete':
-          result = await supabase
-            .from(table)
-            .delete()
-            .eq('user_id', userId)
-            .eq('id', body.id)
+        case 'delete': {
+          const [options] = query.args
+          assertFiltered(policy, table, operation, query)
+          result = await replayQuery(
+            scopeEmbeds(
+              scopeToOwner(
+                supabase.from(table).delete(options),
+                policy,
+                operation,
+                userId
+              ),
+              query,
+              payload,
+              userId
+            ),
+            query,
+            policy
+          )
           break
+        }
 
-        case 'upsert':
-          result = await supabase
-            .from(table)
-            .upsert({ ...body.data, user_id: userId })
+        case 'upsert': {
+          const [values, options] = query.args
+          const rows = prepareRows(policy, values, userId)
+          await assertUpsertOwnership(supabase, policy, table, rows, options, userId)
+          result = await replayQuery(
+            scopeEmbeds(supabase.from(table).upsert(rows, options), query, payload, userId),
+            query,
+            policy
+          )
           break
+        }
 
         default:
-          throw new Error(`Unknown database operation: ${operation}`)
+          throw new ProxyError(`Unknown database operation: ${operation}`)
       }
 
+      // Relay the postgrest-js response untouched (data, error, count, status,
+      // statusText) so single(), maybeSingle(), csv() and head/count queries
+      // resolve on the client exactly as they would without the proxy
       return new Response(
         JSON.stringify(result),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -154,46 +991,228 @@ serve(async (req) => {
       const { bucket, path } = body
       let result
 
+      // The staging bucket is only written by the chunked upload operations,
+      // so a client can't plant a manifest that points anywhere else
+      if ([bucket, body.bucketId, body.options?.destinationBucket].includes(UPLOAD_BUCKET)) {
+        throw new ProxyError(`Bucket ${UPLOAD_BUCKET} is reserved for chunked uploads`, 403)
+      }
+
       switch (operation) {
-        case 'upload':
-          const { file, options } = body
-          const buffer = Uint8Array.from(atob(file.data), c => c.charCodeAt(0))
-          result = await supabase.storage
-            .from(bucket)
-            .upload(`${userId}/${path}`, buffer, {
-              ...options,
-              contentType: file.type
+        case 'upload-start': {
+          const { size, chunkSize, options } = body
+          if (!path) {
+            throw new ProxyError('Upload path is required')
+          }
+          if (!Number.isInteger(size) || size < 0) {
+            throw new ProxyError('Upload size must be a non-negative integer')
+          }
+          if (!Number.isInteger(chunkSize) || chunkSize <= 0 || chunkSize > MAX_CHUNK_SIZE) {
+            throw new ProxyError(`Chunk size must be between 1 and ${MAX_CHUNK_SIZE} bytes`)
+          }
+
+          await ensureUploadBucket(supabase)
+          await removeExpiredUploads(supabase, userId)
+          const newUploadId = crypto.randomUUID()
+          const manifest = {
+            bucket,
+            path: userPath(userId, path),
+            clientPath: path,
+            size,
+            chunkSize,
+            options,
+            createdAt: new Date().toISOString(),
+          }
+          const { error } = await supabase.storage
+            .from(UPLOAD_BUCKET)
+            .upload(`${userId}/${newUploadId}/manifest.json`, JSON.stringify(manifest), {
+              contentType: 'application/json',
             })
+
+          result = error ? { data: null, error } : { data: { uploadId: newUploadId }, error: null }
           break
+        }
+
+        case 'upload-chunk': {
+          const { index } = body
+          const manifest = await readUploadManifest(supabase, userId, body.uploadId)
+          if (!Number.isInteger(index) || index < 0 || index >= chunkCount(manifest)) {
+            throw new ProxyError(`Invalid chunk index: ${index}`)
+          }
+
+          const chunk = new Uint8Array(await req.arrayBuffer())
+          const expected = Math.min(manifest.chunkSize, manifest.size - index * manifest.chunkSize)
+          if (chunk.byteLength !== Math.max(expected, 0)) {
+            throw new ProxyError(`Chunk ${index} should be ${expected} bytes, got ${chunk.byteLength}`)
+          }
+
+          const { error } = await supabase.storage
+            .from(UPLOAD_BUCKET)
+            .upload(`${userId}/${body.uploadId}/${index}`, chunk, {
+              contentType: 'application/octet-stream',
+              upsert: true,
+            })
+
+          result = error ? { data: null, error } : { data: { index }, error: null }
+          break
+        }
+
+        case 'upload-status': {
+          const manifest = await readUploadManifest(supabase, userId, body.uploadId)
+          if (manifest.bucket !== bucket) {
+            throw new ProxyError(`Unknown upload: ${body.uploadId}`, 404)
+          }
+          result = {
+            data: {
+              received: await receivedChunks(supabase, userId, body.uploadId),
+              path: manifest.clientPath,
+              size: manifest.size,
+              chunkSize: manifest.chunkSize,
+            },
+            error: null,
+          }
+          break
+        }
+
+        case 'upload-complete': {
+          const manifest = await readUploadManifest(supabase, userId, body.uploadId)
+          if (manifest.bucket === UPLOAD_BUCKET || manifest.path !== userPath(userId, manifest.clientPath)) {
+            throw new ProxyError(`Upload ${body.uploadId} targets a path outside ${userId}/`, 403)
+          }
+          const received = await receivedChunks(supabase, userId, body.uploadId)
+          const missing = Array.from({ length: chunkCount(manifest) }, (_, index) => index)
+            .filter(index => !received.includes(index))
+          if (missing.length > 0) {
+            throw new ProxyError(`Upload is missing chunks: ${missing.join(', ')}`, 409)
+          }
 
-        case 'download':
           const { data, error } = await supabase.storage
-            .from(bucket)
-            .download(`${userId}/${path}`)
-          
+            .from(manifest.bucket)
+            .upload(manifest.path, assembleChunks(supabase, userId, body.uploadId, manifest), {
+              ...manifest.options,
+              duplex: 'half',
+            })
           if (error) {
             result = { data: null, error }
-          } else {
-            const arrayBuffer = await data.arrayBuffer()
-            const base64 = btoa(String.fromCharCode(...new Uint8Array(arrayBuffer)))
-            result = { data: { base64, type: data.type }, error: null }
+            break
           }
+
+          await supabase.storage
+            .from(UPLOAD_BUCKET)
+            .remove([
+              `${userId}/${body.uploadId}/manifest.json`,
+              ...received.map(index => `${userId}/${body.uploadId}/${index}`),
+            ])
+
+          // Report the path the client asked for, not the user-prefixed one
+          result = { data: { ...data, path: manifest.clientPath }, error: null }
+          break
+        }
+
+        case 'download':
+          return await streamDownload(req, userId, bucket, path, body.options)
+
+        case 'createSignedUrl':
+          result = await supabase.storage
+            .from(bucket)
+            .createSignedUrl(userPath(userId, path), signedUrlExpiry(body.expiresIn), body.options)
+          break
+
+        case 'createSignedUrls': {
+          const { data, error } = await supabase.storage
+            .from(bucket)
+            .createSignedUrls(
+              body.paths.map((p: string) => userPath(userId, p)),
+              signedUrlExpiry(body.expiresIn),
+              body.options
+            )
+
+          // Report the paths the client asked for, not the user-prefixed ones
+          result = error
+            ? { data: null, error }
+            : { data: data.map((entry: any, index: number) => ({ ...entry, path: body.paths[index] })), error: null }
+          break
+        }
+
+        case 'createSignedUploadUrl':
+          result = await supabase.storage
+            .from(bucket)
+            .createSignedUploadUrl(userPath(userId, path), body.options)
           break
 
         case 'remove':
           result = await supabase.storage
             .from(bucket)
-            .remove(body.paths.map((p: string) => `${userId}/${p}`))
+            .remove(body.paths.map((p: string) => userPath(userId, p)))
           break
 
         case 'list':
           result = await supabase.storage
             .from(bucket)
-            .list(`${userId}/${path || ''}`, body.options)
+            .list(userPath(userId, path), body.options)
+          break
+
+        case 'listV2':
+          result = await supabase.storage
+            .from(bucket)
+            .listV2({ ...body.options, prefix: userPath(userId, body.options?.prefix) })
+          break
+
+        case 'move':
+          result = await supabase.storage
+            .from(bucket)
+            .move(userPath(userId, body.fromPath), userPath(userId, body.toPath), body.options)
+          break
+
+        case 'copy': {
+          const { data, error } = await supabase.storage
+            .from(bucket)
+            .copy(userPath(userId, body.fromPath), userPath(userId, body.toPath), body.options)
+
+          // Report the path the client asked for, not the user-prefixed one
+          result = error ? { data: null, error } : { data: { ...data, path: body.toPath }, error: null }
+          break
+        }
+
+        case 'info': {
+          const { data, error } = await supabase.storage
+            .from(bucket)
+            .info(userPath(userId, path))
+          result = error ? { data: null, error } : { data: { ...data, name: path }, error: null }
+          break
+        }
+
+        case 'exists':
+          result = await supabase.storage
+            .from(bucket)
+            .exists(userPath(userId, path))
+          break
+
+        case 'purgeCache':
+          result = await supabase.storage
+            .from(bucket)
+            .purgeCache(userPath(userId, path), body.options)
+          break
+
+        // Bucket metadata is readable by any signed-in user
+        case 'listBuckets':
+          result = await supabase.storage.listBuckets(body.options)
+          break
+
+        case 'getBucket':
+          result = await supabase.storage.getBucket(body.bucketId)
+          break
+
+        case 'createBucket':
+        case 'updateBucket':
+        case 'emptyBucket':
+        case 'deleteBucket':
+        case 'purgeBucketCache':
+          assertStorageAdmin(payload, operation)
+          result = await supabase.storage[operation](body.bucketId, body.options)
           break
 
         default:
-          throw new Error(`Unknown storage operation: ${operation}`)
+          throw new ProxyError(`Unknown storage operation: ${operation}`)
       }
 
       return new Response(
@@ -204,23 +1223,34 @@ serve(async (req) => {
 
     // Handle RPC
     if (resource === 'rpc') {
-      const { functionName, args } = body
-      const result = await supabase.rpc(functionName, { ...args, user_id: userId })
-      
+      const query = parseQuery(body.query)
+      const [functionName, args, options] = query.args
+      const policy = getFunctionPolicy(functionName)
+      assertGuards(payload, policy)
+
+      const client = policy.role === 'user'
+        ? await createUserClient(supabaseUrl, userId, payload)
+        : supabase
+      const result = await replayQuery(
+        client.rpc(functionName, prepareRpcArgs(policy, args, userId), prepareRpcOptions(options)),
+        query,
+        policy
+      )
+
       return new Response(
         JSON.stringify(result),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       )
     }
 
-    throw new Error(`Unknown resource: ${resource}`)
+    throw new ProxyError(`Unknown resource: ${resource}`)
 
   } catch (error) {
     console.error('Error:', error)
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: error.message, code: error.code }),
       { 
-        status: error.message.includes('Invalid token') ? 401 : 500, 
+        status: error.status ?? (error.message.includes('Invalid token') ? 401 : 500), 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
     )